@@ -4,10 +4,11 @@ import { createNextBungieAuth } from "next-bungie-auth/server";
 
 export const {
   catchAllHandler,
+  createBungieAuthMiddleware,
   serverSideHelpers: { getServerSession },
 } = createNextBungieAuth({
   clientId: process.env.BUNGIE_CLIENT_ID!,
   clientSecret: process.env.BUNGIE_CLIENT_SECRET!,
+  secret: process.env.BUNGIE_AUTH_SECRET!,
   baseCookieName: "__example_next-bungie-auth",
-  generateState: () => crypto.randomUUID(),
 });
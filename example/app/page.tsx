@@ -1,6 +1,10 @@
 "use client";
 
-import { useBungieSession } from "next-bungie-auth/client";
+import {
+  SignInButton,
+  SignOutButton,
+  useBungieSession,
+} from "next-bungie-auth/client";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -27,18 +31,20 @@ export default function Page() {
         {(session.status === "authorized" ||
           session.status === "unavailable") && (
           <>
-            <Button onClick={() => session.kill()} variant="destructive">
-              Sign Out
-            </Button>
+            <SignOutButton asChild>
+              <Button variant="destructive">Sign Out</Button>
+            </SignOutButton>
             <Button onClick={() => session.refresh()} variant="secondary">
               Refresh
             </Button>
           </>
         )}
         {session.status === "unauthorized" && (
-          <Button asChild>
-            <a href="/api/auth/authorize">Sign In</a>
-          </Button>
+          <SignInButton asChild>
+            <Button asChild>
+              <a>Sign In</a>
+            </Button>
+          </SignInButton>
         )}
       </CardFooter>
     </Card>
@@ -0,0 +1,9 @@
+import { createBungieAuthMiddleware } from "./app/api/auth";
+
+export default createBungieAuthMiddleware({
+  protect: ["/profile/:path*"],
+});
+
+export const config = {
+  matcher: ["/((?!api/auth|_next/static|_next/image|favicon.ico).*)"],
+};
@@ -1,23 +1,33 @@
 "use client";
 
 import React from "react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import type {
+  AccountMenuProps,
+  BungieClient,
+  BungieFetchConfig,
   BungieSessionProviderParams,
+  NextBungieAuthLinkedAccount,
   NextBungieAuthSessionResponse,
   BungieSession,
+  BungieSessionExpiry,
   BungieSessionState,
+  SignInButtonProps,
+  SignOutButtonProps,
+  UseSessionExpiryOptions,
 } from "./types";
+import { BungieFetchError, BungiePlatformError } from "./internal/error";
+import { fetchBungie, isAccessTokenError } from "./internal/platform";
+import {
+  AuthContext,
+  AuthorizedAuthContext,
+  AuthPathsContext,
+} from "./internal/context";
+import { CSRF_COOKIE_HEADER, CSRF_HEADER } from "./internal/csrf";
+import { joinRoutePath, resolveRoutes } from "./internal/routes";
+import { Slot } from "./internal/slot";
 
-// BEGIN STATE CONTEXTS
-
-const AuthContext = React.createContext<BungieSession | undefined>(undefined);
-
-const AuthorizedAuthContext = React.createContext<
-  (BungieSession & { status: "authorized" }) | undefined
->(undefined);
-
-// END STATE CONTEXTS
+export { BungieFetchError };
 
 // BEGIN EXPORTED HOOKS
 
@@ -51,6 +61,223 @@ export const useAuthorizedBungieSession = (): BungieSession & {
   return ctx;
 };
 
+/**
+ * Custom hook that returns a client for making authorized requests to the Bungie.net API
+ * from the browser. Compatible with `BungieClientProtocol` from `bungie-net-core`.
+ *
+ * Requests wait while the session is pending or stale. If bungie.net reports the access
+ * token has expired, the session is refreshed and the request is replayed once.
+ *
+ * @param apiKey The API key of your Bungie.net application.
+ * @throws BungieFetchError from the returned client's `fetch`
+ */
+export const useBungieFetch = ({
+  apiKey,
+}: {
+  apiKey: string;
+}): BungieClient => {
+  const session = useBungieSession();
+  const sessionRef = React.useRef(session);
+  // Requests waiting for the session, mapped to a function which rejects them
+  const sessionListeners = React.useRef(
+    new Map<() => void, (err: BungieFetchError) => void>()
+  );
+
+  React.useEffect(() => {
+    sessionRef.current = session;
+    sessionListeners.current.forEach((_, listener) => listener());
+  }, [session]);
+
+  // Requests still waiting for the session when the component unmounts can never finish
+  React.useEffect(() => {
+    const listeners = sessionListeners.current;
+    return () => {
+      listeners.forEach((cancel) =>
+        cancel(new BungieFetchError("The component was unmounted", "client"))
+      );
+    };
+  }, []);
+
+  /**
+   * Resolves with the access token once the session is authorized. When `previousToken`
+   * is provided, waits for a refresh to finish and resolves with the new token.
+   * Rejects when `signal` aborts or the component unmounts.
+   */
+  const waitForAccessToken = React.useCallback(
+    (previousToken: string | null, signal?: AbortSignal | null) =>
+      new Promise<string>((resolve, reject) => {
+        const abortError = () =>
+          new BungieFetchError("The request was aborted", "client", {
+            cause: signal?.reason,
+          });
+        if (signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+
+        let hasStartedFetching = false;
+
+        const check = () => {
+          const current = sessionRef.current;
+          if (current.isPending || current.isFetching) {
+            hasStartedFetching = true;
+            return false;
+          }
+
+          if (current.status !== "authorized") {
+            reject(
+              new BungieFetchError(
+                `The session is ${current.status}`,
+                current.error === "bungie-api-offline"
+                  ? "server"
+                  : (current.error ?? "client")
+              )
+            );
+            return true;
+          }
+
+          if (current.data.accessToken !== previousToken) {
+            resolve(current.data.accessToken);
+            return true;
+          }
+
+          // The refresh finished without replacing the rejected token
+          if (hasStartedFetching) {
+            reject(
+              new BungieFetchError("Failed to refresh the session", "client")
+            );
+            return true;
+          }
+
+          return false;
+        };
+
+        if (!check()) {
+          const listeners = sessionListeners.current;
+          const stop = () => {
+            listeners.delete(listener);
+            signal?.removeEventListener("abort", onAbort);
+          };
+          const listener = () => {
+            if (check()) {
+              stop();
+            }
+          };
+          const onAbort = () => {
+            stop();
+            reject(abortError());
+          };
+          listeners.set(listener, (err) => {
+            stop();
+            reject(err);
+          });
+          signal?.addEventListener("abort", onAbort);
+        }
+      }),
+    []
+  );
+
+  const { refresh } = session;
+
+  return React.useMemo<BungieClient>(
+    () => ({
+      fetch: async <T,>(config: BungieFetchConfig) => {
+        const accessToken = await waitForAccessToken(null, config.signal);
+        try {
+          return await fetchBungie<T>(config, { apiKey, accessToken });
+        } catch (err) {
+          if (!isAccessTokenError(err)) {
+            throw toBungieFetchError(err);
+          }
+
+          // The token was rejected by bungie.net, so refresh and replay once
+          const refreshed = waitForAccessToken(accessToken, config.signal);
+          refresh(true);
+          try {
+            return await fetchBungie<T>(config, {
+              apiKey,
+              accessToken: await refreshed,
+            });
+          } catch (err) {
+            throw toBungieFetchError(err);
+          }
+        }
+      },
+    }),
+    [apiKey, refresh, waitForAccessToken]
+  );
+};
+
+/**
+ * Custom hook that counts down to the expiry of the session, for warning users before
+ * they have to sign in again.
+ *
+ * @example
+ * ```tsx
+ * const { refreshTokenExpiresIn, isExpiringSoon } = useSessionExpiry({
+ *   warnBefore: 10 * 60_000,
+ *   onWarning: () => toast("Your session is about to expire"),
+ * });
+ * ```
+ */
+export const useSessionExpiry = ({
+  warnBefore = 5 * 60_000,
+  onWarning,
+  interval = 1000,
+}: UseSessionExpiryOptions = {}): BungieSessionExpiry => {
+  const session = useBungieSession();
+  const data = session.status === "authorized" ? session.data : null;
+
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    if (!data) {
+      return;
+    }
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [data, interval]);
+
+  const accessTokenExpiresIn = data
+    ? Math.max(0, new Date(data.accessTokenExpiresAt).getTime() - now)
+    : null;
+  const refreshTokenExpiresIn = data?.refreshTokenExpiresAt
+    ? Math.max(0, new Date(data.refreshTokenExpiresAt).getTime() - now)
+    : null;
+  const authenticatedFor = data?.authenticatedAt
+    ? Math.max(0, now - new Date(data.authenticatedAt).getTime())
+    : null;
+
+  // Public clients cannot refresh, so their session ends with the access token
+  const expiresAt = data
+    ? (data.refreshTokenExpiresAt ?? data.accessTokenExpiresAt)
+    : null;
+  const expiresIn = refreshTokenExpiresIn ?? accessTokenExpiresIn;
+  const isExpiringSoon = expiresIn !== null && expiresIn <= warnBefore;
+
+  const onWarningRef = React.useRef(onWarning);
+  React.useEffect(() => {
+    onWarningRef.current = onWarning;
+  }, [onWarning]);
+
+  // Warn once per session end, which moves when the session is refreshed
+  const warnedFor = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    if (isExpiringSoon && expiresAt && warnedFor.current !== expiresAt) {
+      warnedFor.current = expiresAt;
+      onWarningRef.current?.(expiresIn);
+    }
+  }, [isExpiringSoon, expiresAt, expiresIn]);
+
+  return {
+    accessTokenExpiresIn,
+    refreshTokenExpiresIn,
+    authenticatedFor,
+    isExpiringSoon,
+  };
+};
+
 // END EXPORTED HOOKS
 
 // BEGIN CONTEXT PROVIDERS
@@ -76,21 +303,55 @@ export const useAuthorizedBungieSession = (): BungieSession & {
 export const BungieSessionProvider = ({
   children,
   initialSession,
-  sessionPath = "/api/auth/session",
-  deauthorizePath = "/api/auth/deauthorize",
-  refreshPath = "/api/auth/refresh",
+  authBasePath = "/api/auth",
+  routes: customRoutes,
+  sessionPath: customSessionPath,
+  deauthorizePath: customDeauthorizePath,
+  refreshPath: customRefreshPath,
+  switchAccountPath: customSwitchAccountPath,
+  removeAccountPath: customRemoveAccountPath,
+  csrfCookieName = "__next-bungie-auth.csrf",
   enableAutomaticRefresh = true,
   refreshInBackground = true,
   fetchOverride: customFetch = fetch,
   timeBeforeRefresh = 30000,
   refreshRateLimit = 15000,
+  syncAcrossTabs = true,
+  syncChannelName = "next-bungie-auth",
   onError,
 }: BungieSessionProviderParams) => {
+  const routes = resolveRoutes(customRoutes);
+  const sessionPath =
+    customSessionPath ?? joinRoutePath(authBasePath, routes.session);
+  const refreshPath =
+    customRefreshPath ?? joinRoutePath(authBasePath, routes.refresh);
+  const deauthorizePath =
+    customDeauthorizePath ?? joinRoutePath(authBasePath, routes.deauthorize);
+  const switchAccountPath =
+    customSwitchAccountPath ??
+    joinRoutePath(authBasePath, routes.switchAccount);
+  const removeAccountPath =
+    customRemoveAccountPath ??
+    joinRoutePath(authBasePath, routes.removeAccount);
+  const authorizePath = joinRoutePath(authBasePath, routes.authorize);
+
   const [isOnline, setIsOnline] = React.useState(true);
   const [isVisible, setIsVisible] = React.useState(true);
   const isUpdatingSession = React.useRef<boolean>(false);
   const isDeauthorizing = React.useRef<boolean>(false);
+  const isChangingAccount = React.useRef<boolean>(false);
   const [lastSuccessfulRefresh, setLastSuccessfulRefresh] = React.useState(0);
+  const isLeaderTab = useIsLeaderTab(syncChannelName, syncAcrossTabs);
+  const isLeaderTabRef = React.useRef(isLeaderTab);
+  const tabSyncChannel = React.useRef<BroadcastChannel | null>(null);
+
+  React.useEffect(() => {
+    isLeaderTabRef.current = isLeaderTab;
+  }, [isLeaderTab]);
+
+  const [accounts, setAccounts] = React.useState<NextBungieAuthLinkedAccount[]>(
+    initialSession?.accounts ?? []
+  );
 
   const [session, setSession] = React.useState<BungieSessionState>(() => {
     if (initialSession === undefined) {
@@ -110,6 +371,46 @@ export const BungieSessionProvider = ({
     }
   });
 
+  // The name of the CSRF cookie reported by the server, which follows its `baseCookieName`
+  const reportedCsrfCookieName = React.useRef<string | null>(null);
+
+  // POST requests echo the CSRF cookie back in a header, for `csrfProtection: "double-submit"`
+  const csrfFetch = React.useCallback<typeof fetch>(
+    async (input, init) => {
+      const send = (cookieName: string) => {
+        const token =
+          init?.method === "POST" ? readCookie(cookieName) : undefined;
+        if (!token) {
+          return customFetch(input, init);
+        }
+
+        const headers = new Headers(init?.headers);
+        headers.set(CSRF_HEADER, token);
+        return customFetch(input, { ...init, headers });
+      };
+
+      const cookieName = reportedCsrfCookieName.current ?? csrfCookieName;
+      const response = await send(cookieName);
+
+      const reported = response.headers.get(CSRF_COOKIE_HEADER);
+      if (!reported) {
+        return response;
+      }
+
+      reportedCsrfCookieName.current = reported;
+      // The request was rejected because the wrong cookie was sent, so retry with the right one
+      if (
+        response.status === 403 &&
+        init?.method === "POST" &&
+        reported !== cookieName
+      ) {
+        return await send(reported);
+      }
+      return response;
+    },
+    [customFetch, csrfCookieName]
+  );
+
   const fetchAndUpdateSession = React.useCallback(
     (refresh = false) => {
       if (isUpdatingSession.current) {
@@ -119,7 +420,7 @@ export const BungieSessionProvider = ({
       isUpdatingSession.current = true;
       setSession((prev) => deriveLoadingState({ previous: prev }));
 
-      customFetch(refresh ? refreshPath : sessionPath, {
+      csrfFetch(refresh ? refreshPath : sessionPath, {
         method: refresh ? "POST" : "GET",
       })
         .then(async (res) => {
@@ -160,6 +461,17 @@ export const BungieSessionProvider = ({
               setLastSuccessfulRefresh(Date.now());
             }
 
+            tabSyncChannel.current?.postMessage({
+              type: "session",
+              session: session as NextBungieAuthSessionResponse,
+              refreshed: refresh,
+            } satisfies TabSyncMessage);
+
+            const linkedAccounts = (session as NextBungieAuthSessionResponse)
+              .accounts;
+            if (linkedAccounts) {
+              setAccounts(linkedAccounts);
+            }
             setSession((prev) =>
               deriveStateFromServer({
                 prevSession: prev,
@@ -197,7 +509,7 @@ export const BungieSessionProvider = ({
           isUpdatingSession.current = false;
         });
     },
-    [isUpdatingSession, customFetch, sessionPath, onError]
+    [isUpdatingSession, csrfFetch, sessionPath, refreshPath, onError]
   );
 
   const deauthorize = React.useCallback(() => {
@@ -212,10 +524,22 @@ export const BungieSessionProvider = ({
       })
     );
 
-    customFetch(deauthorizePath, {
+    csrfFetch(deauthorizePath, {
       method: "POST",
     })
-      .then(() => {
+      .then((res) => {
+        // The cookies are only cleared by a successful response
+        if (!res.ok) {
+          throw new Error("Sign out was rejected by the server", {
+            cause: res,
+          });
+        }
+
+        tabSyncChannel.current?.postMessage({
+          type: "kill",
+        } satisfies TabSyncMessage);
+
+        setAccounts([]);
         setSession({
           status: "unauthorized",
           isPending: false,
@@ -238,7 +562,74 @@ export const BungieSessionProvider = ({
       .finally(() => {
         isDeauthorizing.current = false;
       });
-  }, [deauthorizePath, customFetch, onError, fetchAndUpdateSession]);
+  }, [deauthorizePath, csrfFetch, onError, fetchAndUpdateSession]);
+
+  // Switches or removes a linked account, then adopts the session returned by the server.
+  // Calls made while a change is pending are ignored, so the last response always matches
+  // the account the server made active.
+  const changeAccount = React.useCallback(
+    (path: string, bungieMembershipId: string) => {
+      if (isChangingAccount.current) {
+        return;
+      }
+
+      isChangingAccount.current = true;
+      setSession((prev) => deriveLoadingState({ previous: prev }));
+
+      csrfFetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bungieMembershipId }),
+      })
+        .then(async (res) => {
+          if (!res.headers.get("content-type")?.includes("application/json")) {
+            throw new Error("Invalid response content type", {
+              cause: {
+                contentType: res.headers.get("content-type"),
+              },
+            });
+          }
+
+          const session = (await res.json()) as NextBungieAuthSessionResponse;
+          if (res.status === 404) {
+            onError?.(
+              new Error(`Account ${bungieMembershipId} is not linked`),
+              "client"
+            );
+          }
+
+          tabSyncChannel.current?.postMessage({
+            type: "session",
+            session,
+            refreshed: false,
+          } satisfies TabSyncMessage);
+
+          if (session.accounts) {
+            setAccounts(session.accounts);
+          }
+          setSession((prev) =>
+            deriveStateFromServer({
+              prevSession: prev,
+              session,
+            })
+          );
+        })
+        .catch((err: Error) => {
+          const errType = isNetworkError(err) ? "network" : "client";
+          setSession((prev) =>
+            deriveErrorState({
+              previous: prev,
+              error: errType,
+            })
+          );
+          onError?.(err, errType);
+        })
+        .finally(() => {
+          isChangingAccount.current = false;
+        });
+    },
+    [csrfFetch, onError]
+  );
 
   /**
    * Calculates the time until the next session refresh.
@@ -280,16 +671,21 @@ export const BungieSessionProvider = ({
       return;
     }
 
+    // The leader refreshes for every tab. A visible follower also refreshes once the
+    // refresh is overdue, in case the leader is hidden, offline or frozen by the browser,
+    // since the server coalesces duplicate refreshes
+    const isFollowerFallback = !isLeaderTab && isVisible;
     if (
       enableAutomaticRefresh &&
       isOnline &&
-      (isVisible || refreshInBackground)
+      ((isLeaderTab && (isVisible || refreshInBackground)) ||
+        isFollowerFallback)
     ) {
       const timeoutTime = calculateMsToNextRefresh(session);
       if (timeoutTime !== false) {
         const timeout = setTimeout(
           () => fetchAndUpdateSession(true),
-          timeoutTime
+          timeoutTime + (isFollowerFallback ? FOLLOWER_REFRESH_DELAY : 0)
         );
         return () => clearTimeout(timeout);
       }
@@ -299,6 +695,7 @@ export const BungieSessionProvider = ({
     fetchAndUpdateSession,
     enableAutomaticRefresh,
     calculateMsToNextRefresh,
+    isLeaderTab,
     isOnline,
     isVisible,
     refreshInBackground,
@@ -313,7 +710,8 @@ export const BungieSessionProvider = ({
     const handleOnlineChange = () => {
       setIsOnline(navigator.onLine);
 
-      if (navigator.onLine) {
+      // Only the leader refreshes, the other tabs receive the result
+      if (navigator.onLine && isLeaderTabRef.current) {
         fetchAndUpdateSession(true);
       }
     };
@@ -329,6 +727,52 @@ export const BungieSessionProvider = ({
     };
   }, [fetchAndUpdateSession]);
 
+  // Adopt session changes and sign outs from other tabs
+  React.useEffect(() => {
+    if (!syncAcrossTabs || typeof BroadcastChannel === "undefined") {
+      return;
+    }
+
+    const channel = new BroadcastChannel(syncChannelName);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      switch (event.data.type) {
+        case "session": {
+          const { session, refreshed } = event.data;
+          if (refreshed) {
+            setLastSuccessfulRefresh(Date.now());
+          }
+          if (session.accounts) {
+            setAccounts(session.accounts);
+          }
+          setSession((prev) =>
+            deriveStateFromServer({
+              prevSession: prev,
+              session,
+            })
+          );
+          break;
+        }
+        case "kill":
+          setAccounts([]);
+          setSession({
+            status: "unauthorized",
+            isPending: false,
+            isFetching: false,
+            isError: false,
+            data: null,
+            error: undefined,
+          });
+          break;
+      }
+    };
+    tabSyncChannel.current = channel;
+
+    return () => {
+      tabSyncChannel.current = null;
+      channel.close();
+    };
+  }, [syncAcrossTabs, syncChannelName]);
+
   // These methods are memoized to prevent unnecessary re-renders but also act as wrappers
   // asto not expose them to the consumer
 
@@ -337,6 +781,16 @@ export const BungieSessionProvider = ({
     [fetchAndUpdateSession]
   );
   const kill = React.useCallback(() => deauthorize(), [deauthorize]);
+  const switchAccount = React.useCallback(
+    (bungieMembershipId: string) =>
+      changeAccount(switchAccountPath, bungieMembershipId),
+    [changeAccount, switchAccountPath]
+  );
+  const removeAccount = React.useCallback(
+    (bungieMembershipId: string) =>
+      changeAccount(removeAccountPath, bungieMembershipId),
+    [changeAccount, removeAccountPath]
+  );
 
   return (
     <AuthContext.Provider
@@ -344,9 +798,14 @@ export const BungieSessionProvider = ({
         ...session,
         refresh,
         kill,
+        accounts,
+        switchAccount,
+        removeAccount,
       }}
     >
-      {children}
+      <AuthPathsContext.Provider value={{ authorizePath }}>
+        {children}
+      </AuthPathsContext.Provider>
     </AuthContext.Provider>
   );
 };
@@ -420,6 +879,321 @@ export const BungieSessionSuspender = ({
 
 // END CONTEXT PROVIDERS
 
+// BEGIN COMPONENTS
+
+/**
+ * An unstyled link to the authorize route, which returns to the current URL after
+ * signing in. Works without JavaScript, in which case the query string of the current
+ * URL is not preserved.
+ *
+ * @example
+ * ```tsx
+ * <SignInButton asChild>
+ *   <Button asChild>
+ *     <a>Sign In</a>
+ *   </Button>
+ * </SignInButton>
+ * ```
+ */
+export const SignInButton = ({
+  asChild = false,
+  callbackUrl,
+  reauth = false,
+  authorizePath,
+  onClick,
+  children,
+  ...props
+}: SignInButtonProps) => {
+  const paths = React.useContext(AuthPathsContext);
+  // Null when rendered outside of the App Router, such as in the Pages Router
+  const pathname = usePathname() as string | null;
+
+  // Without a callback URL, the authorize route falls back to the referrer
+  const buildHref = (returnTo: string | null) => {
+    const params = new URLSearchParams(
+      returnTo ? { callback_url: returnTo } : {}
+    );
+    if (reauth) {
+      params.set("reauth", "true");
+    }
+    const query = params.toString();
+    return `${authorizePath ?? paths.authorizePath}${query ? `?${query}` : ""}`;
+  };
+
+  const linkProps = {
+    ...props,
+    href: buildHref(callbackUrl ?? pathname),
+    onClick: (event: React.MouseEvent<HTMLAnchorElement>) => {
+      onClick?.(event);
+      // The rendered href only has the path, so the full URL is filled in on click
+      if (
+        !event.defaultPrevented &&
+        !callbackUrl &&
+        event.currentTarget instanceof HTMLAnchorElement
+      ) {
+        event.currentTarget.href = buildHref(window.location.href);
+      }
+    },
+  };
+
+  return asChild ? (
+    <Slot {...linkProps}>{children}</Slot>
+  ) : (
+    <a {...linkProps}>{children ?? "Sign In"}</a>
+  );
+};
+
+/**
+ * An unstyled button which signs out with `kill`. It is disabled and marked as busy
+ * while the session is fetching.
+ */
+export const SignOutButton = ({
+  asChild = false,
+  disabled,
+  onClick,
+  children,
+  ...props
+}: SignOutButtonProps) => {
+  const session = useBungieSession();
+
+  const buttonProps = {
+    ...props,
+    disabled: disabled ?? session.isFetching,
+    "aria-busy": session.isFetching,
+    "data-state": session.isFetching ? "pending" : "idle",
+    onClick: (event: React.MouseEvent<HTMLButtonElement>) => {
+      onClick?.(event);
+      if (!event.defaultPrevented) {
+        session.kill();
+      }
+    },
+  };
+
+  return asChild ? (
+    <Slot {...buttonProps}>{children}</Slot>
+  ) : (
+    <button type="button" {...buttonProps}>
+      {children ?? "Sign Out"}
+    </button>
+  );
+};
+
+const STATUS_LABELS: Record<BungieSessionState["status"], string | null> = {
+  pending: "Loading session",
+  stale: "Refreshing session",
+  authorized: null,
+  unauthorized: "Signed out",
+  unavailable: "Bungie.net is unavailable",
+};
+
+const defaultAvatar: NonNullable<AccountMenuProps["avatar"]> = ({
+  src,
+  alt,
+}) => (src ? <img src={src} alt={alt} width={32} height={32} /> : null);
+
+const defaultName: NonNullable<AccountMenuProps["name"]> = ({ name }) => (
+  <span>{name}</span>
+);
+
+const defaultStatus: NonNullable<AccountMenuProps["status"]> = ({ status }) =>
+  STATUS_LABELS[status] && <span role="status">{STATUS_LABELS[status]}</span>;
+
+/**
+ * An unstyled summary of the signed in account, with slots to render the avatar, name
+ * and status of the session. Renders nothing when signed out.
+ *
+ * @example
+ * ```tsx
+ * <AccountMenu
+ *   avatar={({ src, alt }) => <Avatar src={src} alt={alt} />}
+ *   status={({ isFetching }) => isFetching && <Spinner />}
+ * >
+ *   <SignOutButton />
+ * </AccountMenu>
+ * ```
+ */
+export const AccountMenu = ({
+  asChild = false,
+  avatar = defaultAvatar,
+  name = defaultName,
+  status = defaultStatus,
+  bungieBaseUrl = "https://www.bungie.net",
+  children,
+  ...props
+}: AccountMenuProps) => {
+  const session = useBungieSession();
+  if (session.status === "unauthorized") {
+    return null;
+  }
+
+  const data = session.data;
+  const profile = data && "profile" in data ? data.profile : undefined;
+  const displayName = profile?.uniqueName ?? data?.bungieMembershipId;
+
+  const account = (
+    <>
+      {data &&
+        avatar({
+          src: profile
+            ? `${bungieBaseUrl.replace(/\/+$/, "")}${profile.profilePicturePath}`
+            : null,
+          alt: `Avatar of ${displayName}`,
+        })}
+      {data &&
+        name({
+          name: profile?.uniqueName ?? data.bungieMembershipId,
+          bungieMembershipId: data.bungieMembershipId,
+          profile,
+        })}
+      {status(session)}
+    </>
+  );
+
+  const menuProps = {
+    ...props,
+    role: "group",
+    "aria-label": displayName ? `Signed in as ${displayName}` : "Account",
+    "aria-busy": session.isFetching,
+    "data-status": session.status,
+  };
+
+  if (asChild) {
+    // The child is the container, so the account is rendered before its own children
+    const container = React.Children.only(children);
+    return React.isValidElement<{ children?: React.ReactNode }>(container) ? (
+      <Slot {...menuProps}>
+        {React.cloneElement(
+          container,
+          undefined,
+          account,
+          container.props.children
+        )}
+      </Slot>
+    ) : null;
+  }
+
+  return (
+    <div {...menuProps}>
+      {account}
+      {children}
+    </div>
+  );
+};
+
+// END COMPONENTS
+
+// BEGIN TAB SYNCHRONIZATION
+
+type TabSyncMessage =
+  | {
+      type: "session";
+      session: NextBungieAuthSessionResponse;
+      refreshed: boolean;
+    }
+  | {
+      type: "kill";
+    };
+
+/**
+ * How long a visible follower tab waits after a refresh is due before refreshing itself,
+ * when the leader tab has not broadcast a refreshed session
+ */
+const FOLLOWER_REFRESH_DELAY = 10_000;
+
+/** How long a leader lease is valid when Web Locks are not supported */
+const LEADER_LEASE_DURATION = 10_000;
+
+/**
+ * Elects a single leader tab. Uses the Web Locks API when available, and otherwise falls
+ * back to a lease in localStorage which the leader renews periodically.
+ *
+ * When disabled, or when neither API is available, every tab is a leader.
+ */
+function useIsLeaderTab(name: string, enabled: boolean) {
+  const [isLeader, setIsLeader] = React.useState(!enabled);
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setIsLeader(true);
+      return;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    if (navigator.locks) {
+      const controller = new AbortController();
+      let releaseLock: (() => void) | undefined;
+
+      navigator.locks
+        .request(`${name}.leader`, { signal: controller.signal }, () => {
+          setIsLeader(true);
+          // Hold the lock until the provider unmounts or the tab closes
+          return new Promise<void>((resolve) => {
+            releaseLock = resolve;
+          });
+        })
+        .catch(() => {
+          // The request was aborted before the lock was acquired
+        });
+
+      return () => {
+        controller.abort();
+        releaseLock?.();
+        setIsLeader(false);
+      };
+    }
+
+    const leaseKey = `${name}.leader`;
+    const tabId = Math.random().toString(36).slice(2);
+
+    const claimLease = () => {
+      try {
+        const lease = JSON.parse(localStorage.getItem(leaseKey) ?? "null") as {
+          id: string;
+          expiresAt: number;
+        } | null;
+
+        if (!lease || lease.id === tabId || lease.expiresAt < Date.now()) {
+          localStorage.setItem(
+            leaseKey,
+            JSON.stringify({
+              id: tabId,
+              expiresAt: Date.now() + LEADER_LEASE_DURATION,
+            })
+          );
+          setIsLeader(true);
+        } else {
+          setIsLeader(false);
+        }
+      } catch {
+        // localStorage is unavailable, so this tab cannot coordinate with the others
+        setIsLeader(true);
+      }
+    };
+
+    claimLease();
+    const interval = setInterval(claimLease, LEADER_LEASE_DURATION / 2);
+
+    return () => {
+      clearInterval(interval);
+      try {
+        const lease = JSON.parse(localStorage.getItem(leaseKey) ?? "null") as {
+          id: string;
+        } | null;
+        if (lease?.id === tabId) {
+          localStorage.removeItem(leaseKey);
+        }
+      } catch {
+        // localStorage is unavailable
+      }
+      setIsLeader(false);
+    };
+  }, [name, enabled]);
+
+  return isLeader;
+}
+
+// END TAB SYNCHRONIZATION
+
 // BEGIN STATE DERIVATION FUNCTIONS
 
 function deriveErrorState({
@@ -492,7 +1266,7 @@ function deriveLoadingState({
 }
 
 type DecodedServerResponseSessionState = BungieSessionState & {
-  error: undefined | "server" | "bungie-api-offline";
+  error: undefined | "server" | "client" | "bungie-api-offline";
 };
 function deriveStateFromServer({
   prevSession,
@@ -531,6 +1305,7 @@ function deriveStateFromServer({
         error: undefined,
       };
     case "error":
+    case "forbidden":
       return {
         status:
           !prevSession || prevSession.isPending
@@ -541,7 +1316,8 @@ function deriveStateFromServer({
         isError: true,
         data:
           !prevSession?.data || prevSession.isPending ? null : prevSession.data,
-        error: "server",
+        // A forbidden response means the request itself was rejected, e.g. by the CSRF check
+        error: session.status === "error" ? "server" : "client",
       } as DecodedServerResponseSessionState;
     case "disabled":
       return {
@@ -555,6 +1331,31 @@ function deriveStateFromServer({
   }
 }
 
+function toBungieFetchError(err: unknown): BungieFetchError {
+  if (err instanceof BungieFetchError) {
+    return err;
+  }
+  if (err instanceof BungiePlatformError) {
+    return new BungieFetchError(err.message, "server", { cause: err });
+  }
+  if (err instanceof Error) {
+    return new BungieFetchError(
+      err.message,
+      isNetworkError(err) ? "network" : "client",
+      { cause: err }
+    );
+  }
+  return new BungieFetchError("Unknown error", "client", { cause: err });
+}
+
+function readCookie(name: string) {
+  const prefix = `${encodeURIComponent(name)}=`;
+  const cookie = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+}
+
 function isNetworkError(err: Error): err is TypeError {
   return err instanceof TypeError && !navigator.onLine;
 }
@@ -0,0 +1,54 @@
+import type {
+  BungieAuth,
+  NextBungieAuthConfig,
+  NextBungieAuthConfigRequiredKeys,
+} from "./types";
+import { DefaultBungieAuthConfig, resolveConfig } from "./internal/config";
+import { createRouteHandlers } from "./internal/handlers";
+import { createServerSideHelpers } from "./internal/helpers";
+import { createCookieJar } from "./internal/jar";
+import { createMemorySessionStore } from "./internal/store";
+import { jsonLogger, prettyLogger, silentLogger } from "./internal/logger";
+import {
+  BungieAuthorizationError,
+  BungiePlatformError,
+  BungieReadOnlyCookiesError,
+} from "./internal/error";
+
+export { DefaultBungieAuthConfig };
+export {
+  BungieAuthorizationError,
+  BungiePlatformError,
+  BungieReadOnlyCookiesError,
+};
+export { createCookieJar };
+export { createMemorySessionStore };
+export { jsonLogger, prettyLogger, silentLogger };
+
+/**
+ * Creates the framework agnostic core of the library, for servers which are not built
+ * on Next.js, such as Hono, Remix or plain Node.js. It takes the same config as
+ * `createNextBungieAuth`.
+ *
+ * @example
+ * ```ts
+ * const auth = createBungieAuth({ clientId, clientSecret, secret });
+ *
+ * app.all("/api/auth/*", async (c) => {
+ *   const cookies = createCookieJar(c.req.raw);
+ *   const response = await auth.handle(c.req.raw, cookies);
+ *   return cookies.applyTo(response);
+ * });
+ * ```
+ */
+export const createBungieAuth = (
+  config: Partial<NextBungieAuthConfig> &
+    Pick<NextBungieAuthConfig, NextBungieAuthConfigRequiredKeys>
+): BungieAuth => {
+  const defaultedConfig = resolveConfig(config);
+
+  return {
+    ...createRouteHandlers(defaultedConfig),
+    serverSideHelpers: createServerSideHelpers(defaultedConfig),
+  };
+};
@@ -0,0 +1,101 @@
+import { cookies, headers } from "next/headers";
+import { redirect } from "next/navigation";
+import type { NextBungieAuth, NextBungieAuthConfig } from "../types";
+import { clearAllAccounts, getAllCookies } from "./cookies";
+import { buildAuthorizationUrl } from "./authorize";
+import { createRequestLogger } from "./logger";
+import { getPublicOrigin } from "./origin";
+import { sanitizeRedirectUrl } from "./redirect";
+
+/**
+ * Server actions have no request object, so one is built from the request headers. Its
+ * URL is the root of the app, while the `Referer` header holds the page the action was
+ * called from.
+ */
+const getActionRequest = async (config: NextBungieAuthConfig) => {
+  const headerList = await headers();
+  const origin = getPublicOrigin((name) => headerList.get(name), {
+    protocol: "http",
+    host: "localhost",
+  });
+
+  return new Request(`${origin}${config.basePath}/`, {
+    headers: new Headers(headerList),
+  });
+};
+
+/**
+ * Reads an option from the options object, or from the form fields when the action is
+ * used as a form action.
+ */
+const readOption = <T extends object, K extends keyof T & string>(
+  options: T | FormData | undefined,
+  name: K
+): T[K] | string | undefined => {
+  if (options instanceof FormData) {
+    const value = options.get(name);
+    return typeof value === "string" && value ? value : undefined;
+  }
+
+  return options?.[name];
+};
+
+/** @internal */
+export const createServerActions = (
+  config: NextBungieAuthConfig
+): Pick<NextBungieAuth, "signIn" | "signOut"> => ({
+  signIn: async (options) => {
+    const request = await getActionRequest(config);
+    const log = createRequestLogger(config, "authorize", request);
+
+    const returnTo = readOption(options, "returnTo");
+    const reauth = readOption(options, "reauth");
+
+    const url = await buildAuthorizationUrl(
+      {
+        request,
+        callbackValue: returnTo ?? config.generateCallbackUrlCookie(request),
+        params: new URLSearchParams(
+          reauth && reauth !== "false" ? { reauth: "true" } : {}
+        ),
+      },
+      await cookies(),
+      config,
+      log
+    );
+
+    log("info", "redirected", { outcome: "redirected" });
+    redirect(url.toString());
+  },
+
+  signOut: async (options) => {
+    const request = await getActionRequest(config);
+    const log = createRequestLogger(config, "deauthorize", request);
+    const cookieJar = await cookies();
+
+    const { bungieMembershipId } = await getAllCookies(cookieJar, config);
+    await clearAllAccounts(cookieJar, config);
+
+    await config.events.onSignOut?.({
+      bungieMembershipId: bungieMembershipId ?? null,
+      request,
+    });
+
+    log("info", "cookies cleared", {
+      outcome: "success",
+      bungieMembershipId,
+    });
+
+    const redirectTo = readOption(options, "redirectTo") ?? "/";
+    const redirectUrl = sanitizeRedirectUrl(redirectTo, request, config);
+    if (!redirectUrl) {
+      log("warn", `Rejected redirect URL ${redirectTo}`, {
+        outcome: "redirect_rejected",
+      });
+    }
+
+    redirect(
+      redirectUrl ?? new URL(`${config.basePath}/`, request.url).toString()
+    );
+  },
+});
@@ -0,0 +1,90 @@
+import type { CookieJar, NextBungieAuthConfig } from "../types";
+import { setCallbackCookie, setPkceCookie, setStateCookie } from "./cookies";
+import { createCodeChallenge, randomId } from "./crypto";
+import type { createRequestLogger } from "./logger";
+import { sanitizeRedirectUrl } from "./redirect";
+import { createSignedState } from "./state";
+
+/**
+ * A list of authorization parameters that are prohibited from being used in the authorization request.
+ *
+ * According to the Bungie API OAuth Documentation, certain parameters should not be included in the authorization request.
+ * Including these parameters could lead to unexpected behavior.
+ *
+ * @see {@link https://github.com/Bungie-net/api/wiki/OAuth-Documentation#authorization-request}
+ */
+const PROHIBITED_AUTHORIZATION_PARAMS = ["scope", "redirect_uri"];
+
+/**
+ * Starts a sign in. Stores what the callback needs to verify it, the state and return URL
+ * along with the PKCE verifier for public clients, and builds the bungie.net
+ * authorization URL.
+ *
+ * @param callbackValue The URL to return to after signing in, which is discarded if not allowed.
+ * @param params Query parameters forwarded to bungie.net, such as `reauth`.
+ * @internal
+ */
+export const buildAuthorizationUrl = async (
+  {
+    request,
+    callbackValue,
+    params,
+  }: {
+    request: Request;
+    callbackValue: string | null;
+    params: URLSearchParams;
+  },
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig,
+  log: ReturnType<typeof createRequestLogger>
+) => {
+  const callbackUrl = sanitizeRedirectUrl(callbackValue, request, config);
+  if (!callbackUrl && callbackValue) {
+    log("warn", `Rejected callback URL ${callbackValue}`, {
+      outcome: "redirect_rejected",
+    });
+  }
+
+  // Public clients have no secret, so they prove they started the sign in with PKCE
+  const codeVerifier = config.clientSecret ? undefined : randomId(32);
+  const verifierRef =
+    codeVerifier && !config.generateState ? randomId(8) : undefined;
+  if (codeVerifier) {
+    await setPkceCookie(codeVerifier, verifierRef, cookieJar, config);
+  }
+
+  let state: string;
+  if (config.generateState) {
+    // A custom state is checked against a cookie, alongside the callback URL
+    state = config.generateState(request);
+    setStateCookie(state, cookieJar, config);
+    if (callbackUrl) {
+      setCallbackCookie(callbackUrl, cookieJar, config);
+    }
+  } else {
+    state = await createSignedState(
+      { returnUrl: callbackUrl, verifierRef },
+      cookieJar,
+      config
+    );
+  }
+
+  const url = new URL(`${config.bungieBaseUrl}/en/oauth/authorize`);
+  params.forEach((value, key) => {
+    if (!PROHIBITED_AUTHORIZATION_PARAMS.includes(key)) {
+      url.searchParams.set(key, value);
+    }
+  });
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("state", state);
+  if (codeVerifier) {
+    url.searchParams.set(
+      "code_challenge",
+      await createCodeChallenge(codeVerifier)
+    );
+    url.searchParams.set("code_challenge_method", "S256");
+  }
+
+  return url;
+};
@@ -0,0 +1,80 @@
+import type { CookieJar, CookieOptions } from "../types";
+
+/**
+ * Browsers only guarantee 4096 bytes per cookie, including its name and attributes, so
+ * values are split into chunks which leave room for both.
+ */
+const MAX_CHUNK_SIZE = 3936;
+
+/**
+ * Lists the chunks of a cookie present in the jar, such as `name.0` and `name.1`. Some
+ * cookie stores return deleted cookies with an empty value, so those are skipped.
+ */
+const getChunkNames = (name: string, cookieJar: CookieJar) => {
+  const names: string[] = [];
+  while (cookieJar.get(`${name}.${names.length}`)?.value) {
+    names.push(`${name}.${names.length}`);
+  }
+  return names;
+};
+
+/**
+ * Reads a cookie written by `setChunkedCookie`, joining its chunks.
+ *
+ * @internal
+ */
+export const getChunkedCookie = (name: string, cookieJar: CookieJar) => {
+  const value = cookieJar.get(name)?.value;
+  if (value) {
+    return value;
+  }
+
+  const chunks = getChunkNames(name, cookieJar).map(
+    (chunk) => cookieJar.get(chunk)?.value ?? ""
+  );
+  return chunks.length ? chunks.join("") : undefined;
+};
+
+/**
+ * Writes a cookie, splitting it across `name.0`, `name.1`, etc. when it is too large
+ * for a single cookie. Leftover chunks of a previous, larger value are deleted.
+ *
+ * @internal
+ */
+export const setChunkedCookie = (
+  name: string,
+  value: string,
+  options: CookieOptions,
+  cookieJar: CookieJar
+) => {
+  const existingChunks = getChunkNames(name, cookieJar);
+
+  if (value.length <= MAX_CHUNK_SIZE) {
+    cookieJar.set(name, value, options);
+    existingChunks.forEach((chunk) => cookieJar.delete(chunk));
+    return;
+  }
+
+  const count = Math.ceil(value.length / MAX_CHUNK_SIZE);
+  for (let i = 0; i < count; i++) {
+    cookieJar.set(
+      `${name}.${i}`,
+      value.slice(i * MAX_CHUNK_SIZE, (i + 1) * MAX_CHUNK_SIZE),
+      options
+    );
+  }
+  existingChunks.slice(count).forEach((chunk) => cookieJar.delete(chunk));
+  if (cookieJar.get(name)?.value) {
+    cookieJar.delete(name);
+  }
+};
+
+/**
+ * Deletes a cookie written by `setChunkedCookie`, along with all of its chunks.
+ *
+ * @internal
+ */
+export const deleteChunkedCookie = (name: string, cookieJar: CookieJar) => {
+  getChunkNames(name, cookieJar).forEach((chunk) => cookieJar.delete(chunk));
+  cookieJar.delete(name);
+};
@@ -2,6 +2,7 @@ import type {
   NextBungieAuthConfig,
   NextBungieAuthConfigRequiredKeys,
 } from "../types";
+import { logRequestShim, prettyLogger } from "./logger";
 
 /** @internal */
 export const DefaultBungieAuthConfig: Omit<
@@ -9,72 +10,116 @@ export const DefaultBungieAuthConfig: Omit<
   NextBungieAuthConfigRequiredKeys
 > = {
   sessionRefreshGracePeriod: 300,
+  refreshReuseWindow: 30,
   baseCookieName: "__next-bungie-auth",
+  multiAccount: false,
   cookieOptions: {
     httpOnly: true,
     secure: true,
     sameSite: "lax",
   },
+  bungieBaseUrl: "https://www.bungie.net",
+  routes: {},
+  basePath: "",
   tokenHttp: (params) =>
-    fetch("https://www.bungie.net/platform/app/oauth/token/", {
+    fetch(`${params.bungieBaseUrl}/platform/app/oauth/token/`, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: `Basic ${btoa(`${params.clientId}:${params.clientSecret}`)}`,
+        // Public clients identify themselves in the body instead
+        ...(params.clientSecret
+          ? {
+              Authorization: `Basic ${btoa(`${params.clientId}:${params.clientSecret}`)}`,
+            }
+          : {}),
       },
       body: new URLSearchParams({
         grant_type: params.grantType,
         [params.grantKey]: params.value,
+        ...(params.clientSecret ? {} : { client_id: params.clientId }),
+        ...(params.codeVerifier ? { code_verifier: params.codeVerifier } : {}),
       }),
+      signal: params.signal,
     }),
+  tokenRetry: {},
+  enrichSession: false,
+  membershipHttp: (params) =>
+    fetch(
+      `${params.bungieBaseUrl}/Platform/User/GetMembershipsForCurrentUser/`,
+      {
+        headers: {
+          "X-API-KEY": params.apiKey,
+          Authorization: `Bearer ${params.accessToken}`,
+        },
+      }
+    ),
+  events: {},
   generateCallbackUrlCookie: (request) => {
     return (
-      request.nextUrl.searchParams.get("callback_url") ??
+      new URL(request.url).searchParams.get("callback_url") ??
       request.headers.get("referer") ??
       null
     );
   },
-  generateCallbackUrl: (request, callbackUrlCookie) => {
-    return callbackUrlCookie ?? new URL("/", request.url).toString();
+  // Falls back to the root of the app, which is resolved within the basePath
+  generateCallbackUrl: (_, callbackUrlCookie) => {
+    return callbackUrlCookie ?? "/";
   },
   generateErrorCallbackUrl: (request, errorType, callbackUrlCookie) => {
-    const url = callbackUrlCookie
-      ? new URL(callbackUrlCookie)
-      : new URL("/", request.url);
+    if (!callbackUrlCookie) {
+      return `/?${new URLSearchParams({ error: errorType }).toString()}`;
+    }
+
+    const url = new URL(callbackUrlCookie, request.url);
     url.searchParams.set("error", errorType);
     return url.toString();
   },
-  logRequest: (path, status, message) => {
-    let logFn = console.log;
-    switch (status) {
-      case "info":
-      case "success":
-        logFn = console.info;
-        break;
-      case "error":
-        logFn = console.error;
-        break;
-      case "warn":
-        logFn = console.warn;
-        break;
-    }
+  allowedRedirectOrigins: [],
+  csrfProtection: "origin",
+  logger: prettyLogger,
+};
 
-    let emoji = "";
-    switch (status) {
-      case "error":
-        emoji = "❌";
-        break;
-      case "info":
-        emoji = "ℹ️";
-        break;
-      case "success":
-        emoji = "✅";
-        break;
-      case "warn":
-        emoji = "⚠️";
-        break;
-    }
+/**
+ * Validates the config and fills in the defaults.
+ *
+ * @internal
+ */
+export const resolveConfig = (
+  config: Partial<NextBungieAuthConfig> &
+    Pick<NextBungieAuthConfig, NextBungieAuthConfigRequiredKeys>
+): NextBungieAuthConfig => {
+  if (!config.clientId) {
+    throw new TypeError("clientId is a required config option", {
+      cause: {
+        clientId: config.clientId,
+      },
+    });
+  }
 
-    logFn(`NextBungieAuth[${path}]`, emoji, message);
-  },
+  const keyring =
+    typeof config.secret === "string" ? [config.secret] : config.secret;
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  if (!keyring?.length || keyring.some((secret) => !secret)) {
+    throw new TypeError(
+      "secret is a required config option and cannot contain empty values"
+    );
+  }
+
+  if (config.enrichSession && !config.apiKey) {
+    throw new TypeError("apiKey is a required config option for enrichSession");
+  }
+
+  return {
+    ...DefaultBungieAuthConfig,
+    ...(config.logRequest && !config.logger
+      ? { logger: logRequestShim(config.logRequest) }
+      : {}),
+    ...config,
+    ...(config.bungieBaseUrl
+      ? { bungieBaseUrl: config.bungieBaseUrl.replace(/\/+$/, "") }
+      : {}),
+    ...(config.basePath
+      ? { basePath: `/${config.basePath.replace(/^\/+|\/+$/g, "")}` }
+      : {}),
+  };
 };
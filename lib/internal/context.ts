@@ -0,0 +1,26 @@
+import React from "react";
+import type { BungieSession } from "../types";
+
+// Shared between the client components and the testing utilities, so that mocked
+// sessions are visible to the hooks
+
+/** @internal */
+export const AuthContext = React.createContext<BungieSession | undefined>(
+  undefined
+);
+
+/** @internal */
+export const AuthorizedAuthContext = React.createContext<
+  (BungieSession & { status: "authorized" }) | undefined
+>(undefined);
+
+/**
+ * The paths of the routes used by the prebuilt components, set by the provider.
+ *
+ * @internal
+ */
+export const AuthPathsContext = React.createContext<{
+  authorizePath: string;
+}>({
+  authorizePath: "/api/auth/authorize",
+});
@@ -1,11 +1,23 @@
-import type { BungieTokenResponse, NextBungieAuthConfig } from "../types";
-import { decodeToken, encodeToken } from "./tokens";
-import type { ReadonlyRequestCookies } from "next/dist/server/web/spec-extension/adapters/request-cookies";
+import type {
+  BungieTokenResponse,
+  CookieJar,
+  NextBungieAuthConfig,
+  NextBungieAuthLinkedAccount,
+  NextBungieAuthProfile,
+  NextBungieAuthSessionRecord,
+} from "../types";
+import { decodeToken } from "./tokens";
+import { decrypt, encrypt, randomId, sign, verify } from "./crypto";
+import {
+  deleteChunkedCookie,
+  getChunkedCookie,
+  setChunkedCookie,
+} from "./chunks";
 
 /** @internal */
 export const setStateCookie = (
   state: string,
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   cookieJar.set(`${config.baseCookieName}.state`, state, {
@@ -16,7 +28,7 @@ export const setStateCookie = (
 
 /** @internal */
 export const getStateCookie = (
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   return cookieJar.get(`${config.baseCookieName}.state`)?.value;
@@ -24,7 +36,7 @@ export const getStateCookie = (
 
 /** @internal */
 export const clearStateCookie = (
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   cookieJar.delete(`${config.baseCookieName}.state`);
@@ -33,7 +45,7 @@ export const clearStateCookie = (
 /** @internal */
 export const setCallbackCookie = (
   callbackUrl: string,
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   cookieJar.set(`${config.baseCookieName}.callback`, callbackUrl, {
@@ -44,7 +56,7 @@ export const setCallbackCookie = (
 
 /** @internal */
 export const getCallbackCookie = (
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   return cookieJar.get(`${config.baseCookieName}.callback`)?.value;
@@ -52,17 +64,306 @@ export const getCallbackCookie = (
 
 /** @internal */
 export const clearCallbackCookie = (
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
   cookieJar.delete(`${config.baseCookieName}.callback`);
 };
 
+/**
+ * Reads and verifies the signed session id cookie used in session store mode.
+ */
+const getSessionId = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const signedSessionId = cookieJar.get(`${config.baseCookieName}.sid`)?.value;
+  if (!signedSessionId) {
+    return null;
+  }
+  return await verify(signedSessionId, config);
+};
+
+/**
+ * Returns the config used to read and write the cookies of a single account when
+ * `multiAccount` is enabled. Each account has its own cookie namespace.
+ */
+const getAccountConfig = (
+  config: NextBungieAuthConfig,
+  bungieMembershipId: string
+): NextBungieAuthConfig => ({
+  ...config,
+  multiAccount: false,
+  baseCookieName: `${config.baseCookieName}.${bungieMembershipId}`,
+});
+
+/**
+ * Reads the signed list of accounts signed in to the browser, and the active one.
+ *
+ * @internal
+ */
+export const getAccountIndex = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<{ active: string | null; accounts: string[] }> => {
+  const signed = cookieJar.get(`${config.baseCookieName}.accounts`)?.value;
+  const value = signed ? await verify(signed, config) : null;
+  if (!value) {
+    return { active: null, accounts: [] };
+  }
+
+  const [active, accounts] = value.split(":");
+  return {
+    active: active || null,
+    accounts: accounts ? accounts.split(",") : [],
+  };
+};
+
+const setAccountIndex = async (
+  { active, accounts }: { active: string | null; accounts: string[] },
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  if (!accounts.length) {
+    cookieJar.delete(`${config.baseCookieName}.accounts`);
+    return;
+  }
+
+  cookieJar.set(
+    `${config.baseCookieName}.accounts`,
+    await sign(`${active ?? ""}:${accounts.join(",")}`, config),
+    {
+      ...config.cookieOptions,
+      maxAge: 7_776_000,
+    }
+  );
+};
+
+/**
+ * Makes a linked account the active one.
+ *
+ * @returns false if the account is not linked.
+ * @internal
+ */
+export const switchAccount = async (
+  bungieMembershipId: string,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const { accounts } = await getAccountIndex(cookieJar, config);
+  if (!accounts.includes(bungieMembershipId)) {
+    return false;
+  }
+
+  await setAccountIndex(
+    { active: bungieMembershipId, accounts },
+    cookieJar,
+    config
+  );
+  return true;
+};
+
+/**
+ * Signs out of a linked account. If it was the active account, the next linked
+ * account becomes active.
+ *
+ * @returns false if the account is not linked.
+ * @internal
+ */
+export const removeAccount = async (
+  bungieMembershipId: string,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const index = await getAccountIndex(cookieJar, config);
+  if (!index.accounts.includes(bungieMembershipId)) {
+    return false;
+  }
+
+  await clearAllCookies(
+    cookieJar,
+    getAccountConfig(config, bungieMembershipId)
+  );
+
+  const accounts = index.accounts.filter((id) => id !== bungieMembershipId);
+  await setAccountIndex(
+    {
+      active:
+        index.active === bungieMembershipId
+          ? (accounts.at(0) ?? null)
+          : index.active,
+      accounts,
+    },
+    cookieJar,
+    config
+  );
+  return true;
+};
+
+/**
+ * Lists the accounts signed in to the browser, or undefined when `multiAccount` is disabled.
+ * Accounts whose session has expired are left out.
+ *
+ * @internal
+ */
+export const getLinkedAccounts = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<NextBungieAuthLinkedAccount[] | undefined> => {
+  if (!config.multiAccount) {
+    return undefined;
+  }
+
+  const { accounts } = await getAccountIndex(cookieJar, config);
+  const linkedAccounts: NextBungieAuthLinkedAccount[] = [];
+  for (const bungieMembershipId of accounts) {
+    const { refreshToken, accessToken, profile } = await getAllCookies(
+      cookieJar,
+      getAccountConfig(config, bungieMembershipId)
+    );
+    if (refreshToken || accessToken) {
+      linkedAccounts.push({
+        bungieMembershipId,
+        ...(profile ? { profile } : {}),
+      });
+    }
+  }
+  return linkedAccounts;
+};
+
+/**
+ * Stores the PKCE code verifier for a sign in. Each sign in started with a signed state
+ * has its own cookie, identified by the reference in the state.
+ *
+ * @internal
+ */
+export const setPkceCookie = async (
+  codeVerifier: string,
+  ref: string | undefined,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  cookieJar.set(
+    `${config.baseCookieName}.pkce${ref ? `.${ref}` : ""}`,
+    await encrypt(codeVerifier, "pkce", config),
+    {
+      ...config.cookieOptions,
+      maxAge: 900,
+    }
+  );
+};
+
 /** @internal */
-export const getAllCookies = (
-  cookieJar: ReadonlyRequestCookies,
+export const getPkceCookie = async (
+  ref: string | undefined,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
 ) => {
+  const encrypted = cookieJar.get(
+    `${config.baseCookieName}.pkce${ref ? `.${ref}` : ""}`
+  )?.value;
+  return encrypted ? await decrypt(encrypted, "pkce", config) : null;
+};
+
+/** @internal */
+export const clearPkceCookie = (
+  ref: string | undefined,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  cookieJar.delete(`${config.baseCookieName}.pkce${ref ? `.${ref}` : ""}`);
+};
+
+/**
+ * The version of the session cookie's schema. Session cookies with another version are
+ * ignored, which signs the user out.
+ */
+const SESSION_COOKIE_VERSION = 1;
+
+/**
+ * The encrypted contents of the session cookie, which has the same shape as the records
+ * of a session store.
+ */
+type SessionCookie = NextBungieAuthSessionRecord & {
+  v: number;
+};
+
+/**
+ * The cookies which held the session before it was stored in a single cookie. Sessions in
+ * this layout are still read, and are upgraded the next time the session is written.
+ */
+const LEGACY_SESSION_COOKIES = [
+  "membershipid",
+  "access",
+  "refresh",
+  "refreshexpires",
+  "expires",
+  "authenticatedat",
+  "profile",
+];
+
+interface SessionValues {
+  accessExpires: Date;
+  /**
+   * Null for public clients, which do not receive refresh tokens.
+   */
+  refreshExpires: Date | null;
+  /**
+   * Null for sessions created before the sign in time was stored.
+   */
+  authenticatedAt: Date | null;
+  bungieMembershipId: string | undefined;
+  accessToken: string | null;
+  refreshToken: string | null;
+  profile: NextBungieAuthProfile | null;
+}
+
+const fromSessionRecord = (
+  record: NextBungieAuthSessionRecord | null
+): SessionValues => ({
+  accessExpires: new Date(record?.accessTokenExpiresAt ?? 0),
+  refreshExpires: record?.refreshToken
+    ? new Date(record.refreshTokenExpiresAt)
+    : null,
+  authenticatedAt: record?.authenticatedAt
+    ? new Date(record.authenticatedAt)
+    : null,
+  bungieMembershipId: record?.bungieMembershipId,
+  accessToken: record?.accessToken ?? null,
+  refreshToken: record?.refreshToken ?? null,
+  profile: record?.profile ?? null,
+});
+
+/**
+ * Reads and decrypts the session cookie, joining its chunks.
+ *
+ * @returns The session, or null if there is no session cookie, or it cannot be
+ * decrypted or has an unknown version.
+ */
+const readSessionCookie = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<NextBungieAuthSessionRecord | null> => {
+  const encrypted = getChunkedCookie(
+    `${config.baseCookieName}.session`,
+    cookieJar
+  );
+  const json = encrypted ? await decrypt(encrypted, "session", config) : null;
+  if (!json) {
+    return null;
+  }
+
+  const { v, ...record } = JSON.parse(json) as SessionCookie;
+  return v === SESSION_COOKIE_VERSION ? record : null;
+};
+
+/**
+ * Reads a session written in the legacy layout, with one cookie per value.
+ */
+const readLegacySessionCookies = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<SessionValues> => {
   const bungieMembershipId = cookieJar.get(
     `${config.baseCookieName}.membershipid`
   )?.value;
@@ -75,69 +376,309 @@ export const getAllCookies = (
   const encodedRefreshToken = cookieJar.get(
     `${config.baseCookieName}.refresh`
   )?.value;
+  const refreshExpires = cookieJar.get(
+    `${config.baseCookieName}.refreshexpires`
+  )?.value;
+  const authenticatedAt = cookieJar.get(
+    `${config.baseCookieName}.authenticatedat`
+  )?.value;
+  const encodedProfile = cookieJar.get(
+    `${config.baseCookieName}.profile`
+  )?.value;
+  const profile = encodedProfile
+    ? await decrypt(encodedProfile, "profile", config)
+    : null;
 
   return {
     accessExpires,
+    refreshExpires: refreshExpires ? new Date(refreshExpires) : null,
+    authenticatedAt: authenticatedAt ? new Date(authenticatedAt) : null,
     bungieMembershipId,
-    accessToken: decodeToken(encodedAccessToken, config),
-    refreshToken: decodeToken(encodedRefreshToken, config),
+    accessToken: await decodeToken(encodedAccessToken, "access", config),
+    refreshToken: await decodeToken(encodedRefreshToken, "refresh", config),
+    profile: profile ? (JSON.parse(profile) as NextBungieAuthProfile) : null,
   };
 };
 
-/** @internal */
-export const setAllCookies = (
+/**
+ * Reads the session, which is the active account's session when `multiAccount` is enabled.
+ *
+ * @internal
+ */
+export const getAllCookies = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<SessionValues> => {
+  if (config.multiAccount) {
+    const { active } = await getAccountIndex(cookieJar, config);
+    if (!active) {
+      return fromSessionRecord(null);
+    }
+    return await getAllCookies(cookieJar, getAccountConfig(config, active));
+  }
+
+  if (config.sessionStore) {
+    const sessionId = await getSessionId(cookieJar, config);
+    return fromSessionRecord(
+      sessionId ? await config.sessionStore.get(sessionId) : null
+    );
+  }
+
+  const session = await readSessionCookie(cookieJar, config);
+  if (!session) {
+    return await readLegacySessionCookies(cookieJar, config);
+  }
+
+  const values = fromSessionRecord(session);
+  return {
+    ...values,
+    // The access token is dropped once it expires, as the legacy access token cookie
+    // expired along with it
+    accessToken:
+      values.accessExpires.getTime() > Date.now() ? values.accessToken : null,
+  };
+};
+
+/**
+ * Writes the session. When `multiAccount` is enabled, the account is added to the
+ * linked accounts and becomes the active one.
+ *
+ * @internal
+ */
+export const setAllCookies = async (
   {
     tokens,
     sessionAge,
     accessAge,
     accessExpires,
+    profile,
+    authenticatedAt,
   }: {
     tokens: BungieTokenResponse;
     sessionAge: number;
     accessAge: number;
     accessExpires: Date;
+    /**
+     * The profile to store with the session. When omitted, the existing profile is kept.
+     */
+    profile?: NextBungieAuthProfile;
+    /**
+     * When the user signed in. When omitted, the existing time is kept if the session
+     * belongs to the same user, otherwise the current time is used.
+     */
+    authenticatedAt?: Date;
   },
-  cookieJar: ReadonlyRequestCookies,
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
-) => {
-  cookieJar.set(`${config.baseCookieName}.membershipid`, tokens.membership_id, {
-    ...config.cookieOptions,
-    maxAge: sessionAge,
-  });
+): Promise<void> => {
+  if (config.multiAccount) {
+    const { accounts } = await getAccountIndex(cookieJar, config);
+    await setAccountIndex(
+      {
+        active: tokens.membership_id,
+        accounts: accounts.includes(tokens.membership_id)
+          ? accounts
+          : [...accounts, tokens.membership_id],
+      },
+      cookieJar,
+      config
+    );
+    return await setAllCookies(
+      {
+        tokens,
+        sessionAge,
+        accessAge,
+        accessExpires,
+        profile,
+        authenticatedAt,
+      },
+      cookieJar,
+      getAccountConfig(config, tokens.membership_id)
+    );
+  }
 
-  cookieJar.set(
-    `${config.baseCookieName}.refresh`,
-    encodeToken(tokens.refresh_token, config),
-    {
-      ...config.cookieOptions,
-      maxAge: sessionAge,
+  if (config.sessionStore) {
+    // Keep the session id when the session is refreshed, but never reuse
+    // an existing id for a different user
+    let sessionId = await getSessionId(cookieJar, config);
+    const existingRecord = sessionId
+      ? await config.sessionStore.get(sessionId)
+      : null;
+    const isSameUser =
+      existingRecord?.bungieMembershipId === tokens.membership_id;
+    if (!sessionId || !isSameUser) {
+      sessionId = randomId();
     }
-  );
 
-  cookieJar.set(
-    `${config.baseCookieName}.access`,
-    encodeToken(tokens.access_token, config),
+    await config.sessionStore.set(
+      sessionId,
+      {
+        bungieMembershipId: tokens.membership_id,
+        accessToken: tokens.access_token,
+        accessTokenExpiresAt: accessExpires.getTime(),
+        refreshToken: tokens.refresh_token,
+        refreshTokenExpiresAt: Date.now() + sessionAge,
+        authenticatedAt:
+          authenticatedAt?.getTime() ??
+          (isSameUser ? existingRecord.authenticatedAt : undefined) ??
+          Date.now(),
+        profile: profile ?? (isSameUser ? existingRecord.profile : undefined),
+      },
+      Math.ceil(sessionAge / 1000)
+    );
+
+    cookieJar.set(
+      `${config.baseCookieName}.sid`,
+      await sign(sessionId, config),
+      {
+        ...config.cookieOptions,
+        maxAge: Math.ceil(sessionAge / 1000),
+      }
+    );
+    return;
+  }
+
+  const existing = await getAllCookies(cookieJar, config);
+  const isSameUser = existing.bungieMembershipId === tokens.membership_id;
+
+  const session: SessionCookie = {
+    v: SESSION_COOKIE_VERSION,
+    bungieMembershipId: tokens.membership_id,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: accessExpires.getTime(),
+    refreshToken: tokens.refresh_token,
+    refreshTokenExpiresAt: Date.now() + sessionAge,
+    authenticatedAt:
+      authenticatedAt?.getTime() ??
+      (isSameUser ? existing.authenticatedAt?.getTime() : undefined) ??
+      Date.now(),
+    profile: profile ?? (isSameUser ? existing.profile : null) ?? undefined,
+  };
+
+  setChunkedCookie(
+    `${config.baseCookieName}.session`,
+    await encrypt(JSON.stringify(session), "session", config),
     {
       ...config.cookieOptions,
-      maxAge: accessAge,
-    }
+      maxAge: Math.ceil(sessionAge / 1000),
+    },
+    cookieJar
   );
-  cookieJar.set(
-    `${config.baseCookieName}.expires`,
-    accessExpires.toISOString(),
-    {
-      ...config.cookieOptions,
-      maxAge: accessAge,
+
+  LEGACY_SESSION_COOKIES.forEach((key) => {
+    if (cookieJar.get(`${config.baseCookieName}.${key}`)?.value) {
+      cookieJar.delete(`${config.baseCookieName}.${key}`);
     }
-  );
+  });
 };
 
-/** @internal */
-export const clearAllCookies = (
-  cookieJar: ReadonlyRequestCookies,
+/**
+ * Marks the stored session as recently used. Does nothing when no session store is configured.
+ *
+ * @internal
+ */
+export const touchStoredSession = async (
+  cookieJar: CookieJar,
   config: NextBungieAuthConfig
-) => {
-  ["membershipid", "access", "refresh", "expires"].forEach((key) => {
+): Promise<void> => {
+  if (!config.sessionStore) {
+    return;
+  }
+
+  if (config.multiAccount) {
+    const { active } = await getAccountIndex(cookieJar, config);
+    if (active) {
+      await touchStoredSession(cookieJar, getAccountConfig(config, active));
+    }
+    return;
+  }
+
+  const sessionId = await getSessionId(cookieJar, config);
+  const record = sessionId ? await config.sessionStore.get(sessionId) : null;
+  if (sessionId && record) {
+    await config.sessionStore.touch(
+      sessionId,
+      Math.ceil((record.refreshTokenExpiresAt - Date.now()) / 1000)
+    );
+  }
+};
+
+/**
+ * Clears the session, which signs out of the active account when `multiAccount` is enabled.
+ *
+ * @internal
+ */
+export const clearAllCookies = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<void> => {
+  if (config.multiAccount) {
+    const { active } = await getAccountIndex(cookieJar, config);
+    if (active) {
+      await removeAccount(active, cookieJar, config);
+    }
+    return;
+  }
+
+  if (config.sessionStore) {
+    const sessionId = await getSessionId(cookieJar, config);
+    if (sessionId) {
+      await config.sessionStore.delete(sessionId);
+    }
+  }
+
+  deleteChunkedCookie(`${config.baseCookieName}.session`, cookieJar);
+  [...LEGACY_SESSION_COOKIES, "sid"].forEach((key) => {
     cookieJar.delete(`${config.baseCookieName}.${key}`);
   });
 };
+
+/**
+ * Signs out of every linked account when `multiAccount` is enabled, otherwise the same
+ * as `clearAllCookies`.
+ *
+ * @internal
+ */
+export const clearAllAccounts = async (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  if (!config.multiAccount) {
+    await clearAllCookies(cookieJar, config);
+    return;
+  }
+
+  const { accounts } = await getAccountIndex(cookieJar, config);
+  for (const bungieMembershipId of accounts) {
+    await removeAccount(bungieMembershipId, cookieJar, config);
+  }
+};
+
+/**
+ * Sets the double submit CSRF cookie if it is not already present. The cookie is readable
+ * by scripts so the client can echo it back in a header.
+ *
+ * @internal
+ */
+export const ensureCsrfCookie = (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  if (getCsrfCookie(cookieJar, config)) {
+    return;
+  }
+
+  cookieJar.set(`${config.baseCookieName}.csrf`, randomId(), {
+    ...config.cookieOptions,
+    httpOnly: false,
+    maxAge: 7_776_000,
+  });
+};
+
+/** @internal */
+export const getCsrfCookie = (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  return cookieJar.get(`${config.baseCookieName}.csrf`)?.value;
+};
@@ -0,0 +1,227 @@
+import type { NextBungieAuthConfig } from "../types";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const IV_LENGTH = 12;
+const HKDF_SALT = encoder.encode("next-bungie-auth");
+
+// Derived keys are cached per secret so each request does not pay for the HKDF step
+const derivedKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Returns the keyring from the config. The first secret is used to encrypt new values,
+ * all secrets are tried when decrypting.
+ */
+const getKeyring = (config: Pick<NextBungieAuthConfig, "secret">) =>
+  typeof config.secret === "string" ? [config.secret] : config.secret;
+
+const KEY_ALGORITHMS = {
+  encryption: {
+    algorithm: { name: "AES-GCM", length: 256 },
+    usages: ["encrypt", "decrypt"],
+  },
+  signing: {
+    algorithm: { name: "HMAC", hash: "SHA-256" },
+    usages: ["sign", "verify"],
+  },
+} satisfies Record<
+  string,
+  { algorithm: AesKeyGenParams | HmacImportParams; usages: KeyUsage[] }
+>;
+
+const deriveKey = (secret: string, purpose: keyof typeof KEY_ALGORITHMS) => {
+  const cacheKey = `${purpose}:${secret}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    const { algorithm, usages } = KEY_ALGORITHMS[purpose];
+    key = crypto.subtle
+      .importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+      .then((baseKey) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: HKDF_SALT,
+            info: encoder.encode(purpose),
+          },
+          baseKey,
+          algorithm,
+          false,
+          usages
+        )
+      );
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+};
+
+/** @internal */
+export const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/** @internal */
+export const fromBase64Url = (str: string) => {
+  const base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(
+    atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")),
+    (c) => c.charCodeAt(0)
+  );
+};
+
+/**
+ * Encrypts the value with AES-GCM using the current key in the keyring.
+ *
+ * The context is bound to the ciphertext as additional authenticated data, so a value
+ * encrypted for one purpose cannot be replayed as another.
+ *
+ * @internal
+ */
+export const encrypt = async (
+  plaintext: string,
+  context: string,
+  config: Pick<NextBungieAuthConfig, "secret">
+) => {
+  const key = await deriveKey(getKeyring(config)[0], "encryption");
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(plaintext)
+  );
+
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * Decrypts a value produced by `encrypt`, trying each key in the keyring.
+ *
+ * @returns The plaintext, or null if the value is malformed, was tampered with, or was
+ * not encrypted with any of the keys in the keyring.
+ * @internal
+ */
+export const decrypt = async (
+  encrypted: string,
+  context: string,
+  config: Pick<NextBungieAuthConfig, "secret">
+) => {
+  const [encodedIv, encodedCiphertext, ...rest] = encrypted.split(".");
+  if (!encodedIv || !encodedCiphertext || rest.length) {
+    return null;
+  }
+
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    iv = fromBase64Url(encodedIv);
+    ciphertext = fromBase64Url(encodedCiphertext);
+  } catch {
+    return null;
+  }
+
+  for (const secret of getKeyring(config)) {
+    const key = await deriveKey(secret, "encryption");
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv, additionalData: encoder.encode(context) },
+        key,
+        ciphertext
+      );
+      return decoder.decode(plaintext);
+    } catch {
+      // Authentication failed with this key, try the next one
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Signs the value with HMAC-SHA256 using the current key in the keyring.
+ *
+ * @returns The value with the signature appended, separated by a `.`
+ * @internal
+ */
+export const sign = async (
+  value: string,
+  config: Pick<NextBungieAuthConfig, "secret">
+) => {
+  const key = await deriveKey(getKeyring(config)[0], "signing");
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(value)
+  );
+
+  return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Verifies a value produced by `sign`, trying each key in the keyring.
+ *
+ * @returns The original value, or null if the signature is invalid.
+ * @internal
+ */
+export const verify = async (
+  signed: string,
+  config: Pick<NextBungieAuthConfig, "secret">
+) => {
+  const separator = signed.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const value = signed.slice(0, separator);
+  let signature: Uint8Array;
+  try {
+    signature = fromBase64Url(signed.slice(separator + 1));
+  } catch {
+    return null;
+  }
+
+  for (const secret of getKeyring(config)) {
+    const key = await deriveKey(secret, "signing");
+    if (
+      await crypto.subtle.verify("HMAC", key, signature, encoder.encode(value))
+    ) {
+      return value;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Hashes a token for use as a key, so the raw token is not kept in memory or sent to
+ * shared stores.
+ *
+ * @internal
+ */
+export const hashToken = async (token: string) =>
+  toBase64Url(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(token)))
+  );
+
+/**
+ * Derives the S256 PKCE code challenge from a code verifier.
+ *
+ * @internal
+ */
+export const createCodeChallenge = async (codeVerifier: string) =>
+  toBase64Url(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", encoder.encode(codeVerifier))
+    )
+  );
+
+/**
+ * Generates a random, URL safe identifier.
+ *
+ * @internal
+ */
+export const randomId = (bytes = 32) =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
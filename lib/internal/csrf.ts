@@ -0,0 +1,67 @@
+import type { CookieJar, NextBungieAuthConfig } from "../types";
+import { getCsrfCookie } from "./cookies";
+import { getPublicOrigin } from "./origin";
+
+/**
+ * The header the client uses to echo the CSRF cookie back to the server.
+ *
+ * @internal
+ */
+export const CSRF_HEADER = "x-next-bungie-auth-csrf";
+
+/**
+ * The header the session routes use to tell the client the name of the CSRF cookie,
+ * which depends on `baseCookieName`.
+ *
+ * @internal
+ */
+export const CSRF_COOKIE_HEADER = "x-next-bungie-auth-csrf-cookie";
+
+/**
+ * Checks that a state changing request was made by the app itself, rather than a
+ * form or script on another site.
+ *
+ * Browsers which send `Sec-Fetch-Site` must report a same origin request, otherwise
+ * the `Origin` header must match the request, either its URL or the origin given by the
+ * `X-Forwarded-*` headers of a proxy. Requests with neither header, such as
+ * those from other servers, are allowed. In `double-submit` mode, the CSRF header
+ * must also match the CSRF cookie.
+ *
+ * @returns The reason the request was rejected, or null if it is allowed.
+ * @internal
+ */
+export const verifyCsrf = (
+  request: Request,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): string | null => {
+  if (!config.csrfProtection) {
+    return null;
+  }
+
+  const fetchSite = request.headers.get("sec-fetch-site");
+  const origin = request.headers.get("origin");
+  if (fetchSite) {
+    if (fetchSite !== "same-origin" && fetchSite !== "none") {
+      return `Cross-site request rejected (Sec-Fetch-Site: ${fetchSite})`;
+    }
+  } else if (origin) {
+    const url = new URL(request.url);
+    const publicOrigin = getPublicOrigin((name) => request.headers.get(name), {
+      protocol: url.protocol.slice(0, -1),
+      host: url.host,
+    });
+    if (origin !== url.origin && origin !== publicOrigin) {
+      return `Cross-origin request rejected (Origin: ${origin})`;
+    }
+  }
+
+  if (config.csrfProtection === "double-submit") {
+    const cookie = getCsrfCookie(cookieJar, config);
+    if (!cookie || request.headers.get(CSRF_HEADER) !== cookie) {
+      return "CSRF token missing or invalid";
+    }
+  }
+
+  return null;
+};
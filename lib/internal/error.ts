@@ -8,3 +8,69 @@ export class BungieAuthorizationError extends Error {
     this.error_description = error_description;
   }
 }
+
+/**
+ * An error response from the Bungie.net platform API, such as `{ ErrorCode: 99, ErrorStatus: "WebAuthRequired" }`.
+ */
+export class BungiePlatformError extends Error {
+  readonly ErrorCode: number;
+  readonly ErrorStatus: string;
+  readonly ThrottleSeconds: number;
+  readonly MessageData: Record<string, string>;
+  /** The HTTP status code of the response */
+  readonly status: number;
+
+  constructor(
+    response: {
+      ErrorCode: number;
+      ErrorStatus: string;
+      Message: string;
+      ThrottleSeconds: number;
+      MessageData: Record<string, string>;
+    },
+    status: number
+  ) {
+    super(response.Message);
+    this.ErrorCode = response.ErrorCode;
+    this.ErrorStatus = response.ErrorStatus;
+    this.ThrottleSeconds = response.ThrottleSeconds;
+    this.MessageData = response.MessageData;
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown by `createBungieClient` when the session has to be refreshed, but the cookies
+ * are read-only, such as in a Server Component. Refreshing would rotate the refresh token
+ * without saving the new one, so the session must be refreshed in middleware, a route
+ * handler or a server action instead.
+ */
+export class BungieReadOnlyCookiesError extends Error {
+  constructor(options?: ErrorOptions) {
+    super(
+      "The session must be refreshed, but the cookies are read-only. Refresh the session in middleware or a route handler.",
+      options
+    );
+  }
+}
+
+/**
+ * An error thrown by `useBungieFetch`, normalized to the same categories as the
+ * `onError` handler of the `BungieSessionProvider`.
+ *
+ * - `network` - The request could not be sent, such as when the browser is offline.
+ * - `server` - Bungie.net responded with an error, the original `BungiePlatformError` is the cause.
+ * - `client` - The session is not authorized, or the response could not be handled.
+ */
+export class BungieFetchError extends Error {
+  readonly type: "client" | "server" | "network";
+
+  constructor(
+    message: string,
+    type: "client" | "server" | "network",
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.type = type;
+  }
+}
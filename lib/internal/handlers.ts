@@ -1,107 +1,220 @@
-import { cookies } from "next/headers";
-import { NextResponse } from "next/server";
-import { redirect } from "next/navigation";
 import type {
+  BungieAuth,
   BungieTokenResponse,
-  NextBungieAuth,
+  CookieJar,
   NextBungieAuthConfig,
+  NextBungieAuthProfile,
+  NextBungieAuthRoutes,
   NextBungieAuthSessionResponse,
 } from "../types";
 import {
-  clearAllCookies,
+  clearAllAccounts,
   clearCallbackCookie,
+  clearPkceCookie,
   clearStateCookie,
+  ensureCsrfCookie,
+  getAllCookies,
   getCallbackCookie,
+  getLinkedAccounts,
+  getPkceCookie,
   getStateCookie,
+  removeAccount,
   setAllCookies,
-  setCallbackCookie,
-  setStateCookie,
+  switchAccount,
 } from "./cookies";
 import { getSession, refreshSession } from "./session";
 import { getTokens } from "./tokens";
 import { BungieAuthorizationError } from "./error";
+import { fetchProfile } from "./profile";
+import { createRequestLogger } from "./logger";
+import { sanitizeRedirectUrl } from "./redirect";
+import { CSRF_COOKIE_HEADER, verifyCsrf } from "./csrf";
+import { verifySignedState } from "./state";
+import { buildAuthorizationUrl } from "./authorize";
+import { matchRoute, resolveRoutes } from "./routes";
 
 /**
- * A list of authorization parameters that are prohibited from being used in the authorization request.
- *
- * According to the Bungie API OAuth Documentation, certain parameters should not be included in the authorization request.
- * Including these parameters could lead to unexpected behavior.
- *
- * @see {@link https://github.com/Bungie-net/api/wiki/OAuth-Documentation#authorization-request}
+ * The routes served for each method by `handle`.
  */
-const PROHIBITED_AUTHORIZATION_PARAMS = ["scope", "redirect_uri"];
+const METHOD_ROUTES = {
+  GET: ["authorize", "callback", "session"],
+  POST: ["deauthorize", "refresh", "switchAccount", "removeAccount"],
+} as const;
 
-export const createHandlers = (
+/**
+ * Creates the route handlers on standard Request and Response objects. They are
+ * independent of how the cookies of the request are read and written, so the Next.js
+ * adapters and `next-bungie-auth/core` share them.
+ *
+ * @internal
+ */
+export const createRouteHandlers = (
   defaultedConfig: NextBungieAuthConfig
-): Pick<NextBungieAuth, "catchAllHandler" | "handlers"> => {
-  const handlers: NextBungieAuth["handlers"] = {
-    authorizeGET: async (request) => {
-      const state = defaultedConfig.generateState(request);
-
-      const cookieJar = await cookies();
+): Pick<BungieAuth, "handle" | "handlers"> => {
+  // Adds the linked accounts to the response when multiAccount is enabled
+  const buildSessionResponse = async (
+    session: NextBungieAuthSessionResponse,
+    status: number,
+    cookieJar: CookieJar
+  ) => {
+    const accounts = await getLinkedAccounts(cookieJar, defaultedConfig);
+    return buildJsonResponse(
+      accounts ? { ...session, accounts } : session,
+      status,
+      defaultedConfig
+    );
+  };
 
-      setStateCookie(state, cookieJar, defaultedConfig);
+  // Reads the account from a `{ bungieMembershipId }` JSON body
+  const readMembershipId = async (request: Request) => {
+    const body: unknown = await request.json().catch(() => null);
+    return body &&
+      typeof body === "object" &&
+      "bungieMembershipId" in body &&
+      typeof body.bungieMembershipId === "string"
+      ? body.bungieMembershipId
+      : null;
+  };
 
-      const callbackValue = defaultedConfig.generateCallbackUrlCookie(request);
-      if (callbackValue) {
-        setCallbackCookie(callbackValue, cookieJar, defaultedConfig);
-      }
+  const handlers: BungieAuth["handlers"] = {
+    authorizeGET: async (request, cookieJar) => {
+      const log = createRequestLogger(defaultedConfig, "authorize", request);
 
-      const url = new URL("https://www.bungie.net/en/oauth/authorize");
-      request.nextUrl.searchParams.forEach((value, key) => {
-        if (!PROHIBITED_AUTHORIZATION_PARAMS.includes(key)) {
-          url.searchParams.set(key, value);
-        }
-      });
-      url.searchParams.set("client_id", defaultedConfig.clientId);
-      url.searchParams.set("response_type", "code");
-      url.searchParams.set("state", state);
+      const url = await buildAuthorizationUrl(
+        {
+          request,
+          callbackValue: defaultedConfig.generateCallbackUrlCookie(request),
+          params: new URL(request.url).searchParams,
+        },
+        cookieJar,
+        defaultedConfig,
+        log
+      );
 
-      defaultedConfig.logRequest("authorize", "info", "redirected");
-      redirect(url.toString());
+      log("info", "redirected", { outcome: "redirected" });
+      return Response.redirect(url, 307);
     },
 
-    deauthorizePOST: async () => {
-      const cookieJar = await cookies();
-      clearAllCookies(cookieJar, defaultedConfig);
+    deauthorizePOST: async (request, cookieJar) => {
+      const log = createRequestLogger(defaultedConfig, "deauthorize", request);
+
+      const csrfError = verifyCsrf(request, cookieJar, defaultedConfig);
+      if (csrfError) {
+        log("warn", csrfError, { outcome: "forbidden" });
+        return buildJsonResponse(
+          { status: "forbidden", data: null },
+          403,
+          defaultedConfig
+        );
+      }
+
+      const { bungieMembershipId } = await getAllCookies(
+        cookieJar,
+        defaultedConfig
+      );
+      await clearAllAccounts(cookieJar, defaultedConfig);
 
-      defaultedConfig.logRequest("deauthorize", "success", "cookies cleared");
-      return buildNextResponse(
+      await defaultedConfig.events.onSignOut?.({
+        bungieMembershipId: bungieMembershipId ?? null,
+        request,
+      });
+
+      log("info", "cookies cleared", {
+        outcome: "success",
+        bungieMembershipId,
+      });
+      return await buildSessionResponse(
         {
           status: "unauthorized",
           data: null,
         },
-        200
+        200,
+        cookieJar
       );
     },
 
-    callbackGET: async (request) => {
+    callbackGET: async (request, cookieJar) => {
+      const log = createRequestLogger(defaultedConfig, "callback", request);
       const searchParams = new URL(request.url).searchParams;
       const code = searchParams.get("code") ?? "";
       const urlState = searchParams.get("state") ?? "";
+      log.addSensitiveValue(code);
 
-      const cookieJar = await cookies();
+      // Only redirect to allowed origins, falling back to the root of the app
+      const safeRedirect = (url: string) => {
+        const sanitized = sanitizeRedirectUrl(url, request, defaultedConfig);
+        if (!sanitized) {
+          log("warn", `Rejected redirect URL ${url}`, {
+            outcome: "redirect_rejected",
+          });
+        }
+        return Response.redirect(
+          sanitized ?? new URL(`${defaultedConfig.basePath}/`, request.url),
+          307
+        );
+      };
 
-      const callbackUrlCookie =
-        getCallbackCookie(cookieJar, defaultedConfig) ?? null;
-      const cookieState = getStateCookie(cookieJar, defaultedConfig);
+      let callbackUrlCookie: string | null;
+      let verifierRef: string | undefined;
+      let expectedState: string | null = null;
+      let stateError: string | null = null;
+      if (defaultedConfig.generateState) {
+        // The cookie is not signed, so it is validated again rather than trusted
+        callbackUrlCookie = sanitizeRedirectUrl(
+          getCallbackCookie(cookieJar, defaultedConfig) ?? null,
+          request,
+          defaultedConfig
+        );
+        expectedState = getStateCookie(cookieJar, defaultedConfig) ?? null;
 
-      clearStateCookie(cookieJar, defaultedConfig);
-      clearCallbackCookie(cookieJar, defaultedConfig);
+        clearStateCookie(cookieJar, defaultedConfig);
+        clearCallbackCookie(cookieJar, defaultedConfig);
 
-      if (urlState !== cookieState) {
-        defaultedConfig.logRequest(
-          "callback",
-          "warn",
-          `State mismatch error. Expected ${urlState}, got ${cookieState}`
+        if (urlState !== expectedState) {
+          stateError = `State mismatch error. Expected ${expectedState}, got ${urlState}`;
+        }
+      } else {
+        const result = await verifySignedState(
+          urlState,
+          cookieJar,
+          defaultedConfig
         );
+        if (result.valid) {
+          verifierRef = result.verifierRef;
+          callbackUrlCookie = sanitizeRedirectUrl(
+            result.returnUrl,
+            request,
+            defaultedConfig
+          );
+        } else {
+          callbackUrlCookie = null;
+          stateError = `State mismatch error. ${result.reason}`;
+        }
+      }
+
+      if (stateError) {
+        log("warn", stateError, { outcome: "state_mismatch" });
+
+        await defaultedConfig.events.onStateMismatch?.({
+          expected: expectedState,
+          received: urlState,
+          request,
+        });
 
         const errCallbackUrl = defaultedConfig.generateErrorCallbackUrl(
           request,
           "state_mismatch",
           callbackUrlCookie
         );
-        redirect(errCallbackUrl);
+        return safeRedirect(errCallbackUrl);
+      }
+
+      let codeVerifier: string | undefined;
+      if (!defaultedConfig.clientSecret) {
+        codeVerifier =
+          (await getPkceCookie(verifierRef, cookieJar, defaultedConfig)) ??
+          undefined;
+        clearPkceCookie(verifierRef, cookieJar, defaultedConfig);
       }
 
       let tokens: BungieTokenResponse;
@@ -110,20 +223,28 @@ export const createHandlers = (
           {
             grantType: "authorization_code",
             value: code,
+            codeVerifier,
           },
-          defaultedConfig
+          defaultedConfig,
+          log
         );
       } catch (e) {
+        await defaultedConfig.events.onTokenError?.({
+          error: e,
+          grantType: "authorization_code",
+          bungieMembershipId: null,
+          request,
+        });
+
         if (e instanceof BungieAuthorizationError) {
-          defaultedConfig.logRequest(
-            "callback",
-            "error",
-            `${e.error}: ${e.error_description}`
-          );
+          log("error", `${e.error}: ${e.error_description}`, {
+            outcome: "token_error",
+            bungieErrorCode: e.error,
+          });
         } else if (e instanceof Error) {
-          defaultedConfig.logRequest("callback", "error", e.message);
+          log("error", e.message, { outcome: "token_error" });
         } else {
-          defaultedConfig.logRequest("callback", "error", "unknown error");
+          log("error", "unknown error", { outcome: "token_error" });
         }
 
         const errCallbackUrl = defaultedConfig.generateErrorCallbackUrl(
@@ -131,119 +252,257 @@ export const createHandlers = (
           "token_error",
           callbackUrlCookie
         );
-        redirect(errCallbackUrl);
+        return safeRedirect(errCallbackUrl);
       }
 
-      const sessionAge = tokens.refresh_expires_in * 1000;
+      // Public clients receive no refresh token, so the session ends with the access token
+      const sessionAge =
+        (tokens.refresh_expires_in ?? tokens.expires_in) * 1000;
       const accessAge = tokens.expires_in * 1000;
       const accessExpires = new Date(Date.now() + accessAge);
 
-      setAllCookies(
+      let profile: NextBungieAuthProfile | undefined;
+      if (defaultedConfig.enrichSession) {
+        try {
+          profile = await fetchProfile(tokens.access_token, defaultedConfig);
+        } catch (e) {
+          // The session is still usable without the profile
+          log(
+            "warn",
+            `Failed to enrich session: ${e instanceof Error ? e.message : "unknown error"}`,
+            { bungieMembershipId: tokens.membership_id }
+          );
+        }
+      }
+
+      await setAllCookies(
         {
           tokens,
           accessExpires,
           accessAge,
           sessionAge,
+          profile,
+          authenticatedAt: new Date(),
         },
         cookieJar,
         defaultedConfig
       );
 
-      defaultedConfig.logRequest("callback", "success", "authorized");
+      if (defaultedConfig.csrfProtection === "double-submit") {
+        ensureCsrfCookie(cookieJar, defaultedConfig);
+      }
+
+      await defaultedConfig.events.onSignIn?.({ tokens, request });
+
+      log("info", "authorized", {
+        outcome: "success",
+        bungieMembershipId: tokens.membership_id,
+      });
 
       const callbackUrl = defaultedConfig.generateCallbackUrl(
         request,
         callbackUrlCookie
       );
-      redirect(callbackUrl);
+      return safeRedirect(callbackUrl);
     },
 
-    sessionGET: async () => {
-      const cookieJar = await cookies();
-      const { session, message } = getSession(cookieJar, defaultedConfig);
+    sessionGET: async (request, cookieJar) => {
+      const log = createRequestLogger(defaultedConfig, "session", request);
+      const { session, message } = await getSession(cookieJar, defaultedConfig);
+
+      if (defaultedConfig.csrfProtection === "double-submit") {
+        ensureCsrfCookie(cookieJar, defaultedConfig);
+      }
 
-      defaultedConfig.logRequest("session", "info", message);
-      return buildNextResponse(session, 200);
+      log("info", message, {
+        outcome: session.status,
+        bungieMembershipId: session.data?.bungieMembershipId,
+      });
+      return await buildSessionResponse(session, 200, cookieJar);
     },
 
-    refreshPOST: async () => {
-      const cookieJar = await cookies();
-      const { session, message } = await refreshSession(
+    refreshPOST: async (request, cookieJar) => {
+      const log = createRequestLogger(defaultedConfig, "refresh", request);
+
+      const csrfError = verifyCsrf(request, cookieJar, defaultedConfig);
+      if (csrfError) {
+        log("warn", csrfError, { outcome: "forbidden" });
+        // Issue the cookie if it was missing, so the client can retry
+        if (defaultedConfig.csrfProtection === "double-submit") {
+          ensureCsrfCookie(cookieJar, defaultedConfig);
+        }
+        return buildJsonResponse(
+          { status: "forbidden", data: null },
+          403,
+          defaultedConfig
+        );
+      }
+
+      const { session, message, bungieErrorCode } = await refreshSession(
         cookieJar,
-        defaultedConfig
+        defaultedConfig,
+        request,
+        log
       );
 
       const getResonse = (statusCode: number) => {
-        defaultedConfig.logRequest(
-          "refresh",
-          statusCode === 200 ? "success" : "error",
-          message
-        );
-        return buildNextResponse(session, statusCode);
+        log(statusCode === 200 ? "info" : "error", message, {
+          outcome: session.status,
+          bungieMembershipId: session.data?.bungieMembershipId,
+          bungieErrorCode,
+        });
+        return buildSessionResponse(session, statusCode, cookieJar);
       };
 
       switch (session.status) {
         case "authorized":
-          return getResonse(200);
+          return await getResonse(200);
         case "error":
-          return getResonse(500);
+          return await getResonse(500);
         case "disabled":
-          return getResonse(503);
+          return await getResonse(503);
         default:
-          return getResonse(401);
+          return await getResonse(401);
       }
     },
-  };
 
-  const catchAllHandler: NextBungieAuth["catchAllHandler"] = {
-    GET: (request) => {
-      const url = new URL(request.nextUrl);
-      const path = url.pathname.split("/").at(-1);
-
-      switch (path) {
-        case "authorize":
-          return handlers.authorizeGET(request);
-        case "callback":
-          return handlers.callbackGET(request);
-        case "session":
-          return handlers.sessionGET(request);
-        default:
-          return Promise.resolve(
-            new NextResponse("Not Found", {
-              status: 404,
-            })
-          );
+    switchAccountPOST: async (request, cookieJar) => {
+      const log = createRequestLogger(
+        defaultedConfig,
+        "switchAccount",
+        request
+      );
+
+      const csrfError = verifyCsrf(request, cookieJar, defaultedConfig);
+      if (csrfError) {
+        log("warn", csrfError, { outcome: "forbidden" });
+        return buildJsonResponse(
+          { status: "forbidden", data: null },
+          403,
+          defaultedConfig
+        );
+      }
+
+      const bungieMembershipId = await readMembershipId(request);
+      const switched =
+        defaultedConfig.multiAccount &&
+        !!bungieMembershipId &&
+        (await switchAccount(bungieMembershipId, cookieJar, defaultedConfig));
+
+      const { session, message } = await getSession(cookieJar, defaultedConfig);
+      if (!switched) {
+        log("warn", `Account ${bungieMembershipId} is not linked`, {
+          outcome: "not_linked",
+          bungieMembershipId: bungieMembershipId ?? undefined,
+        });
+        return await buildSessionResponse(session, 404, cookieJar);
       }
+
+      log("info", message, {
+        outcome: session.status,
+        bungieMembershipId: session.data?.bungieMembershipId,
+      });
+      return await buildSessionResponse(session, 200, cookieJar);
     },
-    POST: (request) => {
-      const url = new URL(request.nextUrl);
-      const path = url.pathname.split("/").at(-1);
-
-      switch (path) {
-        case "deauthorize":
-          return handlers.deauthorizePOST(request);
-        case "refresh":
-          return handlers.refreshPOST(request);
-        default:
-          return Promise.resolve(
-            new NextResponse("Not Found", {
-              status: 404,
-            })
-          );
+
+    removeAccountPOST: async (request, cookieJar) => {
+      const log = createRequestLogger(
+        defaultedConfig,
+        "removeAccount",
+        request
+      );
+
+      const csrfError = verifyCsrf(request, cookieJar, defaultedConfig);
+      if (csrfError) {
+        log("warn", csrfError, { outcome: "forbidden" });
+        return buildJsonResponse(
+          { status: "forbidden", data: null },
+          403,
+          defaultedConfig
+        );
+      }
+
+      const bungieMembershipId = await readMembershipId(request);
+      const removed =
+        defaultedConfig.multiAccount &&
+        !!bungieMembershipId &&
+        (await removeAccount(bungieMembershipId, cookieJar, defaultedConfig));
+
+      const { session } = await getSession(cookieJar, defaultedConfig);
+      if (!removed) {
+        log("warn", `Account ${bungieMembershipId} is not linked`, {
+          outcome: "not_linked",
+          bungieMembershipId: bungieMembershipId ?? undefined,
+        });
+        return await buildSessionResponse(session, 404, cookieJar);
       }
+
+      await defaultedConfig.events.onSignOut?.({
+        bungieMembershipId,
+        request,
+      });
+
+      log("info", "account removed", {
+        outcome: "success",
+        bungieMembershipId,
+      });
+      return await buildSessionResponse(session, 200, cookieJar);
     },
   };
 
+  const routes = resolveRoutes(defaultedConfig.routes);
+  const routeHandlers: Record<
+    keyof NextBungieAuthRoutes,
+    (request: Request, cookieJar: CookieJar) => Promise<Response>
+  > = {
+    authorize: handlers.authorizeGET,
+    callback: handlers.callbackGET,
+    session: handlers.sessionGET,
+    deauthorize: handlers.deauthorizePOST,
+    refresh: handlers.refreshPOST,
+    switchAccount: handlers.switchAccountPOST,
+    removeAccount: handlers.removeAccountPOST,
+  };
+
   return {
     handlers,
-    catchAllHandler,
+    handle: (request, cookieJar) => {
+      if (request.method !== "GET" && request.method !== "POST") {
+        return Promise.resolve(
+          new Response("Method Not Allowed", {
+            status: 405,
+            headers: { Allow: "GET, POST" },
+          })
+        );
+      }
+
+      const route = matchRoute(
+        new URL(request.url).pathname,
+        routes,
+        METHOD_ROUTES[request.method]
+      );
+
+      return route
+        ? routeHandlers[route](request, cookieJar)
+        : Promise.resolve(
+            new Response("Not Found", {
+              status: 404,
+            })
+          );
+    },
   };
 };
 
-const buildNextResponse = (
+// In double-submit mode, the client is told the name of the CSRF cookie with each response
+const buildJsonResponse = (
   data: NextBungieAuthSessionResponse,
-  status: number
+  status: number,
+  config: NextBungieAuthConfig
 ) =>
-  NextResponse.json(data, {
+  Response.json(data, {
     status: status,
+    headers:
+      config.csrfProtection === "double-submit"
+        ? { [CSRF_COOKIE_HEADER]: `${config.baseCookieName}.csrf` }
+        : {},
   });
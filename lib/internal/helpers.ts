@@ -0,0 +1,126 @@
+import type {
+  BungieTokenResponse,
+  CookieJar,
+  NextBungieAuth,
+  NextBungieAuthConfig,
+} from "../types";
+import { getTokens } from "./tokens";
+import {
+  clearAllAccounts,
+  getAllCookies,
+  getLinkedAccounts,
+  setAllCookies,
+} from "./cookies";
+import { buildSessionData, refreshSession } from "./session";
+import { createBungieClient } from "./http";
+
+/**
+ * Saves tokens issued at `issuedAt` to the session, shortening their lifetimes by the
+ * time which has passed since.
+ */
+const updateServerSession = async (
+  tokens: BungieTokenResponse,
+  issuedAt: Date,
+  cookies: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const offset = Date.now() - issuedAt.getTime();
+  const sessionAge =
+    (tokens.refresh_expires_in ?? tokens.expires_in) * 1000 - offset;
+  const accessAge = tokens.expires_in * 1000 - offset;
+  const accessExpires = new Date(Date.now() + accessAge);
+
+  await setAllCookies(
+    {
+      tokens,
+      sessionAge,
+      accessAge,
+      accessExpires,
+    },
+    cookies,
+    config
+  );
+};
+
+/** @internal */
+export const createServerSideHelpers = (
+  defaultedConfig: NextBungieAuthConfig
+): NextBungieAuth["serverSideHelpers"] => ({
+  clearServerSession: async (cookies) => {
+    await clearAllAccounts(cookies, defaultedConfig);
+  },
+  requestNewTokens: async (
+    grantType: "authorization_code" | "refresh_token",
+    value: string,
+    cookies
+  ) => {
+    const tokens = await getTokens(
+      {
+        grantType,
+        value,
+      },
+      defaultedConfig
+    );
+    if (cookies) {
+      await updateServerSession(tokens, new Date(), cookies, defaultedConfig);
+    }
+    return tokens;
+  },
+  updateServerSession: async (tokens, issuedAt, cookies) => {
+    await updateServerSession(tokens, issuedAt, cookies, defaultedConfig);
+  },
+  getServerSession: async (cookies) => {
+    const accounts = await getLinkedAccounts(cookies, defaultedConfig);
+    const {
+      bungieMembershipId,
+      refreshToken,
+      accessExpires,
+      refreshExpires,
+      authenticatedAt,
+      accessToken,
+      profile,
+    } = await getAllCookies(cookies, defaultedConfig);
+
+    if (!bungieMembershipId || (!refreshToken && !accessToken)) {
+      return {
+        status: "unauthorized",
+        data: null,
+        ...(accounts ? { accounts } : {}),
+      };
+    }
+
+    if (!accessToken || accessExpires.getTime() < Date.now()) {
+      return {
+        status: "stale",
+        data: {
+          bungieMembershipId: bungieMembershipId,
+        },
+        ...(accounts ? { accounts } : {}),
+      };
+    }
+
+    return {
+      status: "authorized",
+      data: buildSessionData({
+        bungieMembershipId,
+        accessToken,
+        accessExpires,
+        refreshExpires,
+        authenticatedAt,
+        profile,
+      }),
+      ...(accounts ? { accounts } : {}),
+    };
+  },
+  getRefreshedServerSession: async (cookies) => {
+    const { session, message } = await refreshSession(cookies, defaultedConfig);
+    const accounts = await getLinkedAccounts(cookies, defaultedConfig);
+    return {
+      session: accounts ? { ...session, accounts } : session,
+      message,
+    };
+  },
+  createBungieClient: (cookies) => {
+    return createBungieClient(cookies, defaultedConfig);
+  },
+});
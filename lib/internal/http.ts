@@ -0,0 +1,94 @@
+import type {
+  BungieClient,
+  BungieFetchConfig,
+  CookieJar,
+  NextBungieAuthConfig,
+} from "../types";
+import { getAllCookies } from "./cookies";
+import { BungieReadOnlyCookiesError } from "./error";
+import { fetchBungie, isAccessTokenError } from "./platform";
+import { refreshSession } from "./session";
+
+/**
+ * Whether the cookies can be written. The `cookies()` of a Server Component are read-only
+ * and throw on any write, so deleting a cookie which is never set tells them apart.
+ */
+const canWriteCookies = (cookies: CookieJar, config: NextBungieAuthConfig) => {
+  try {
+    cookies.delete(`${config.baseCookieName}.probe`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the current access token, refreshing the session first if it is stale.
+ *
+ * @throws BungieReadOnlyCookiesError if the session must be refreshed but the cookies
+ * are read-only, as the rotated refresh token could not be saved
+ */
+const getAccessToken = async (
+  cookies: CookieJar,
+  config: NextBungieAuthConfig,
+  forceRefresh: boolean,
+  cause?: unknown
+) => {
+  const { accessToken, accessExpires, refreshToken } = await getAllCookies(
+    cookies,
+    config
+  );
+  if (!forceRefresh && accessToken && accessExpires.getTime() > Date.now()) {
+    return accessToken;
+  }
+
+  if (!canWriteCookies(cookies, config)) {
+    // Without a refresh token there is nothing to refresh, so the request is sent without one
+    if (!refreshToken) {
+      return null;
+    }
+    throw new BungieReadOnlyCookiesError({ cause });
+  }
+
+  const { session } = await refreshSession(cookies, config);
+  return session.status === "authorized" ? session.data.accessToken : null;
+};
+
+/** @internal */
+export const createBungieClient = (
+  cookies: CookieJar,
+  config: NextBungieAuthConfig
+): BungieClient => {
+  const { apiKey } = config;
+  if (!apiKey) {
+    throw new TypeError("apiKey is a required config option for the client");
+  }
+
+  return {
+    fetch: async <T>(fetchConfig: BungieFetchConfig) => {
+      const accessToken = await getAccessToken(cookies, config, false);
+      try {
+        return await fetchBungie<T>(fetchConfig, { apiKey, accessToken });
+      } catch (err) {
+        if (!isAccessTokenError(err)) {
+          throw err;
+        }
+
+        // The token was rejected by bungie.net, so refresh and retry once
+        const refreshedAccessToken = await getAccessToken(
+          cookies,
+          config,
+          true,
+          err
+        );
+        if (!refreshedAccessToken) {
+          throw err;
+        }
+        return await fetchBungie<T>(fetchConfig, {
+          apiKey,
+          accessToken: refreshedAccessToken,
+        });
+      }
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import type { CookieJar, CookieOptions } from "../types";
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parses a `Cookie` request header. The first occurrence of a name wins, like browsers
+ * which send the most specific cookie first.
+ */
+const parseCookieHeader = (header: string) => {
+  const cookies = new Map<string, string>();
+
+  header.split(";").forEach((pair) => {
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      return;
+    }
+
+    const name = pair.slice(0, index).trim();
+    if (name && !cookies.has(name)) {
+      cookies.set(name, decode(pair.slice(index + 1).trim()));
+    }
+  });
+
+  return cookies;
+};
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Serializes a cookie as a `Set-Cookie` header value. Like Next.js, the path defaults
+ * to `/` and `maxAge` is also sent as `Expires` for older browsers.
+ */
+const serializeCookie = (
+  name: string,
+  value: string,
+  options: CookieOptions & { expires?: Date }
+) => {
+  const expires =
+    options.expires ??
+    (options.maxAge !== undefined
+      ? new Date(Date.now() + options.maxAge * 1000)
+      : undefined);
+
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path ?? "/"}`,
+    expires && `Expires=${expires.toUTCString()}`,
+    options.maxAge !== undefined && `Max-Age=${Math.floor(options.maxAge)}`,
+    options.domain && `Domain=${options.domain}`,
+    options.secure && "Secure",
+    options.httpOnly && "HttpOnly",
+    options.sameSite && `SameSite=${capitalize(options.sameSite)}`,
+    options.partitioned && "Partitioned",
+    options.priority && `Priority=${capitalize(options.priority)}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+};
+
+/**
+ * Creates a cookie jar which reads the `Cookie` header of a request, for frameworks
+ * without a cookie store of their own.
+ *
+ * Changes are visible to later reads, and are written to the response with `applyTo`.
+ */
+export const createCookieJar = (
+  request: Request
+): CookieJar & {
+  /**
+   * The `Set-Cookie` header values for the changes made to the jar, in order.
+   */
+  getSetCookieHeaders: () => string[];
+  /**
+   * Returns a copy of the response with the changes made to the jar appended as
+   * `Set-Cookie` headers.
+   */
+  applyTo: (response: Response) => Response;
+} => {
+  const cookies = parseCookieHeader(request.headers.get("cookie") ?? "");
+  // Keyed by name so only the last change to each cookie is sent
+  const changes = new Map<string, string>();
+
+  const getSetCookieHeaders = () => Array.from(changes.values());
+
+  return {
+    get: (name) => {
+      const value = cookies.get(name);
+      return value === undefined ? undefined : { value };
+    },
+    set: (name, value, options = {}) => {
+      cookies.set(name, value);
+      changes.set(name, serializeCookie(name, value, options));
+    },
+    delete: (name) => {
+      cookies.delete(name);
+      changes.set(
+        name,
+        serializeCookie(name, "", { maxAge: 0, expires: new Date(0) })
+      );
+    },
+    getSetCookieHeaders,
+    applyTo: (response) => {
+      // Headers of redirects and fetched responses are immutable, so they are copied
+      const headers = new Headers(response.headers);
+      getSetCookieHeaders().forEach((header) =>
+        headers.append("Set-Cookie", header)
+      );
+
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    },
+  };
+};
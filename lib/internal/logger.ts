@@ -0,0 +1,204 @@
+import type {
+  NextBungieAuthConfig,
+  NextBungieAuthLogger,
+  NextBungieAuthLogRecord,
+} from "../types";
+
+const REDACTED = "[REDACTED]";
+const SENSITIVE_KEY = /token|secret|^code$|authorization|cookie/i;
+/**
+ * Configured secrets shorter than this are not redacted from within strings, so that a
+ * placeholder secret such as "dev" does not mangle unrelated words.
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Replaces values which may contain credentials, either by their key or because they
+ * contain one of the configured secrets, or one of the tokens or codes used by the request.
+ */
+const redact = (
+  value: unknown,
+  sensitiveValues: Set<string>,
+  key?: string
+): unknown => {
+  if (key && SENSITIVE_KEY.test(key)) {
+    return REDACTED;
+  }
+
+  if (typeof value === "string") {
+    let redacted = value;
+    sensitiveValues.forEach((sensitive) => {
+      redacted = redacted.split(sensitive).join(REDACTED);
+    });
+    return redacted;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, sensitiveValues));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redact(v, sensitiveValues, k)])
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Writes each record to the console as a single line of JSON, suitable for log drains.
+ */
+export const jsonLogger: NextBungieAuthLogger = ({
+  level,
+  message,
+  ...record
+}) => {
+  const line = JSON.stringify({
+    level,
+    time: new Date().toISOString(),
+    name: "next-bungie-auth",
+    msg: message,
+    ...record,
+  });
+
+  switch (level) {
+    case "error":
+      console.error(line);
+      break;
+    case "warn":
+      console.warn(line);
+      break;
+    default:
+      console.log(line);
+  }
+};
+
+/**
+ * Writes each record to the console in a human readable format, for local development.
+ */
+export const prettyLogger: NextBungieAuthLogger = ({
+  level,
+  route,
+  message,
+  ...context
+}) => {
+  const details = Object.entries(context as Record<string, unknown>)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join(" ");
+
+  switch (level) {
+    case "error":
+      console.error(`NextBungieAuth[${route}]`, "❌", message, details);
+      break;
+    case "warn":
+      console.warn(`NextBungieAuth[${route}]`, "⚠️", message, details);
+      break;
+    case "debug":
+      console.debug(`NextBungieAuth[${route}]`, message, details);
+      break;
+    default:
+      console.info(
+        `NextBungieAuth[${route}]`,
+        context.outcome === "success" ? "✅" : "ℹ️",
+        message,
+        details
+      );
+  }
+};
+
+/**
+ * Discards all records, for use in tests.
+ */
+export const silentLogger: NextBungieAuthLogger = () => undefined;
+
+/**
+ * Adapts the deprecated `logRequest` callback to the logger interface.
+ *
+ * @internal
+ */
+export const logRequestShim =
+  (
+    logRequest: NonNullable<NextBungieAuthConfig["logRequest"]>
+  ): NextBungieAuthLogger =>
+  ({ level, route, message, outcome }) => {
+    logRequest(
+      // The middleware only ever refreshes the session
+      route === "middleware"
+        ? "refresh"
+        : route === "switchAccount" || route === "removeAccount"
+          ? "session"
+          : route,
+      level === "error"
+        ? "error"
+        : level === "warn"
+          ? "warn"
+          : outcome === "success"
+            ? "success"
+            : "info",
+      message
+    );
+  };
+
+/**
+ * Creates a logger for a single request, which fills in the route, request id and
+ * duration, and redacts credentials before the record reaches the configured logger.
+ *
+ * The client secret and encryption secrets are redacted wherever they appear, as are
+ * tokens and codes once they are passed to `addSensitiveValue`. The route and level are
+ * passed through as is.
+ *
+ * @internal
+ */
+export const createRequestLogger = (
+  config: NextBungieAuthConfig,
+  route: NextBungieAuthLogRecord["route"],
+  request: Request | null
+) => {
+  const startedAt = Date.now();
+  const requestId =
+    request?.headers.get("x-request-id") ??
+    request?.headers.get("x-vercel-id") ??
+    crypto.randomUUID();
+  const sensitiveValues = new Set<string>(
+    [config.clientSecret, ...[config.secret].flat()].filter(
+      (secret): secret is string =>
+        !!secret && secret.length >= MIN_SECRET_LENGTH
+    )
+  );
+
+  const log = (
+    level: NextBungieAuthLogRecord["level"],
+    message: string,
+    context: Omit<
+      NextBungieAuthLogRecord,
+      "level" | "route" | "message" | "requestId" | "durationMs"
+    > = {}
+  ) => {
+    config.logger({
+      ...(redact({ message, ...context }, sensitiveValues) as Omit<
+        NextBungieAuthLogRecord,
+        "level" | "route" | "requestId" | "durationMs"
+      >),
+      level,
+      route,
+      requestId,
+      durationMs: Date.now() - startedAt,
+    });
+  };
+
+  return Object.assign(log, {
+    /**
+     * Redacts a token or code from the records of this request.
+     */
+    addSensitiveValue: (value: string | null | undefined) => {
+      if (value) {
+        sensitiveValues.add(value);
+      }
+    },
+  });
+};
+
+/** @internal */
+export type RequestLogger = ReturnType<typeof createRequestLogger>;
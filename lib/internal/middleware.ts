@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import type { CookieJar, NextBungieAuth, NextBungieAuthConfig } from "../types";
+import { getAllCookies } from "./cookies";
+import { refreshSession } from "./session";
+import { createRequestLogger } from "./logger";
+import { joinRoutePath, resolveRoutes } from "./routes";
+
+/**
+ * Compiles a Next.js style path matcher, such as `/profile/:path*`, into a regular expression.
+ *
+ * Supports named segments (`:id`) with the optional `*`, `+` and `?` modifiers.
+ */
+const compilePathMatcher = (matcher: string) => {
+  const pattern = matcher
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      const param = /^:\w+([*+?])?$/.exec(segment);
+      if (!param) {
+        return `/${segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+      }
+
+      switch (param[1]) {
+        case "*":
+          return "(?:/[^/]+)*";
+        case "+":
+          return "(?:/[^/]+)+";
+        case "?":
+          return "(?:/[^/]+)?";
+        default:
+          return "/[^/]+";
+      }
+    })
+    .join("");
+
+  return new RegExp(`^${pattern}/?$`);
+};
+
+/** @internal */
+export const createMiddlewareFactory =
+  (
+    config: NextBungieAuthConfig
+  ): NextBungieAuth["createBungieAuthMiddleware"] =>
+  ({
+    protect = [],
+    authorizePath = joinRoutePath(
+      `${config.basePath}/api/auth`,
+      resolveRoutes(config.routes).authorize
+    ),
+  } = {}) => {
+    const protectedPaths = protect.map(compilePathMatcher);
+
+    return async (request: NextRequest) => {
+      // Cookie changes are applied to the request so that server components rendered
+      // for this request see the refreshed session, and replayed on the response so
+      // that the browser stores them.
+      const responseCookieChanges: ((response: NextResponse) => void)[] = [];
+      const cookieJar: CookieJar = {
+        get: (name) => request.cookies.get(name),
+        set: (name, value, options) => {
+          request.cookies.set(name, value);
+          responseCookieChanges.push((response) =>
+            response.cookies.set(name, value, options)
+          );
+        },
+        delete: (name) => {
+          request.cookies.delete(name);
+          responseCookieChanges.push((response) =>
+            response.cookies.delete(name)
+          );
+        },
+      };
+
+      const { bungieMembershipId, refreshToken, accessToken, accessExpires } =
+        await getAllCookies(cookieJar, config);
+
+      let isAuthenticated =
+        !!bungieMembershipId &&
+        (!!refreshToken ||
+          (!!accessToken && accessExpires.getTime() > Date.now()));
+
+      if (
+        isAuthenticated &&
+        refreshToken &&
+        accessExpires.getTime() - Date.now() <
+          config.sessionRefreshGracePeriod * 1000
+      ) {
+        const log = createRequestLogger(config, "middleware", request);
+        const { session, message, bungieErrorCode } = await refreshSession(
+          cookieJar,
+          config,
+          request,
+          log
+        );
+        log(session.status === "authorized" ? "info" : "warn", message, {
+          outcome: session.status,
+          bungieMembershipId,
+          bungieErrorCode,
+        });
+
+        isAuthenticated =
+          session.status !== "expired" && session.status !== "unauthorized";
+      }
+
+      const response =
+        !isAuthenticated &&
+        protectedPaths.some((matcher) => matcher.test(request.nextUrl.pathname))
+          ? NextResponse.redirect(buildAuthorizeUrl(request, authorizePath))
+          : responseCookieChanges.length
+            ? NextResponse.next({
+                request: {
+                  headers: request.headers,
+                },
+              })
+            : NextResponse.next();
+
+      responseCookieChanges.forEach((apply) => apply(response));
+
+      return response;
+    };
+  };
+
+const buildAuthorizeUrl = (request: NextRequest, authorizePath: string) => {
+  const url = new URL(authorizePath, request.url);
+  url.searchParams.set("callback_url", request.nextUrl.href);
+  return url;
+};
@@ -0,0 +1,39 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import type { CookieJar, NextBungieAuth, NextBungieAuthConfig } from "../types";
+import { createRouteHandlers } from "./handlers";
+
+/**
+ * Creates the App Router route handlers, which read and write the session with
+ * `cookies()` from `next/headers`.
+ *
+ * @internal
+ */
+export const createHandlers = (
+  defaultedConfig: NextBungieAuthConfig
+): Pick<NextBungieAuth, "catchAllHandler" | "handlers"> => {
+  const { handlers, handle } = createRouteHandlers(defaultedConfig);
+  const withCookies =
+    (handler: (request: Request, cookieJar: CookieJar) => Promise<Response>) =>
+    async <T>(request: NextRequest) => {
+      const response = await handler(request, await cookies());
+      return new NextResponse<T>(response.body, response);
+    };
+
+  return {
+    handlers: {
+      authorizeGET: withCookies(handlers.authorizeGET),
+      callbackGET: withCookies(handlers.callbackGET),
+      sessionGET: withCookies(handlers.sessionGET),
+      refreshPOST: withCookies(handlers.refreshPOST),
+      deauthorizePOST: withCookies(handlers.deauthorizePOST),
+      switchAccountPOST: withCookies(handlers.switchAccountPOST),
+      removeAccountPOST: withCookies(handlers.removeAccountPOST),
+    },
+    catchAllHandler: {
+      GET: withCookies(handle),
+      POST: withCookies(handle),
+    },
+  };
+};
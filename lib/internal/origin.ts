@@ -0,0 +1,22 @@
+/**
+ * Resolves the origin the browser sees for a request. The protocol and host are taken
+ * from the `X-Forwarded-*` headers when present, as set by Vercel and most proxies, since
+ * behind a proxy or in Next.js standalone mode the request URL carries the internal host.
+ *
+ * @param getHeader Reads a request header.
+ * @param fallback The protocol (without the colon) and host used when the headers are missing.
+ * @internal
+ */
+export const getPublicOrigin = (
+  getHeader: (name: string) => string | null | undefined,
+  fallback: { protocol: string; host: string }
+) => {
+  const protocol =
+    getHeader("x-forwarded-proto")?.split(",")[0]?.trim() ?? fallback.protocol;
+  const host =
+    getHeader("x-forwarded-host")?.split(",")[0]?.trim() ??
+    getHeader("host") ??
+    fallback.host;
+
+  return `${protocol}://${host}`;
+};
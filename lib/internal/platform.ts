@@ -0,0 +1,105 @@
+/* eslint-disable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-argument */
+import type { BungieFetchConfig } from "../types";
+import { BungieAuthorizationError, BungiePlatformError } from "./error";
+
+/**
+ * Parses a response from the Bungie.net API, unwrapping the platform error envelope.
+ *
+ * @throws BungiePlatformError | BungieAuthorizationError | Error
+ * @internal
+ */
+export const parseBungieResponse = async <T>(
+  response: Response
+): Promise<T> => {
+  if (!response.headers.get("content-type")?.includes("application/json")) {
+    // Bungie returns HTML pages for some errors, such as during maintenance
+    const body = await response.text();
+    const title = /<title>(.*?)<\/title>/.exec(body)?.[1];
+    throw new Error(
+      title ?? `Invalid response: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const data = await response.json();
+
+  if ("ErrorCode" in data) {
+    if (data.ErrorCode !== 1) {
+      throw new BungiePlatformError(
+        {
+          ErrorCode: data.ErrorCode,
+          ErrorStatus: data.ErrorStatus ?? "",
+          Message: data.Message ?? "",
+          ThrottleSeconds: data.ThrottleSeconds ?? 0,
+          MessageData: data.MessageData ?? {},
+        },
+        response.status
+      );
+    }
+    return data as T;
+  }
+
+  if (!response.ok) {
+    throw new BungieAuthorizationError(
+      data.error ?? String(response.status),
+      data.error_description ?? response.statusText
+    );
+  }
+
+  return data as T;
+};
+
+/**
+ * Whether the error indicates the access token is missing, invalid or expired, and
+ * the request may succeed after refreshing the session.
+ *
+ * @internal
+ */
+export const isAccessTokenError = (err: unknown) =>
+  err instanceof BungiePlatformError &&
+  (err.status === 401 ||
+    err.ErrorStatus.startsWith("WebAuth") ||
+    err.ErrorStatus === "AccessTokenHasExpired");
+
+/**
+ * Sends a request to the Bungie.net API with the API key and access token attached.
+ * Any 401 response is thrown as a `BungiePlatformError` so it is treated as a token error.
+ *
+ * @internal
+ */
+export const fetchBungie = async <T>(
+  { url, method, headers, body, signal }: BungieFetchConfig,
+  { apiKey, accessToken }: { apiKey: string; accessToken: string | null }
+) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...headers,
+      "X-API-KEY": apiKey,
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body,
+    signal,
+  });
+
+  if (response.status === 401) {
+    // Prefer the platform error if there is one
+    const err = await parseBungieResponse(response).then(
+      () => null,
+      (e: unknown) => e
+    );
+    throw err instanceof BungiePlatformError
+      ? err
+      : new BungiePlatformError(
+          {
+            ErrorCode: 99,
+            ErrorStatus: "WebAuthRequired",
+            Message: "Unauthorized",
+            ThrottleSeconds: 0,
+            MessageData: {},
+          },
+          401
+        );
+  }
+
+  return await parseBungieResponse<T>(response);
+};
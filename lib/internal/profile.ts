@@ -0,0 +1,63 @@
+import type { NextBungieAuthConfig, NextBungieAuthProfile } from "../types";
+import { parseBungieResponse } from "./platform";
+
+interface UserMembershipDataResponse {
+  Response: {
+    destinyMemberships: {
+      membershipType: number;
+      membershipId: string;
+      crossSaveOverride: number;
+    }[];
+    primaryMembershipId?: string;
+    bungieNetUser: {
+      uniqueName: string;
+      profilePicturePath: string;
+    };
+  };
+}
+
+/**
+ * Fetches the user's memberships and reduces them to a compact profile.
+ *
+ * @internal
+ */
+export const fetchProfile = async (
+  accessToken: string,
+  config: NextBungieAuthConfig
+): Promise<NextBungieAuthProfile> => {
+  const { Response: data } =
+    await parseBungieResponse<UserMembershipDataResponse>(
+      await config.membershipHttp({
+        bungieBaseUrl: config.bungieBaseUrl,
+        // enrichSession is validated to have an apiKey when the config is created
+        apiKey: config.apiKey ?? "",
+        accessToken,
+      })
+    );
+
+  const crossSaveOverride =
+    data.destinyMemberships.find((m) => m.crossSaveOverride !== 0)
+      ?.crossSaveOverride ?? 0;
+
+  // Prefer the explicit primary membership, then the cross save membership, then the first one
+  const primaryMembership =
+    data.destinyMemberships.find(
+      (m) => m.membershipId === data.primaryMembershipId
+    ) ??
+    data.destinyMemberships.find(
+      (m) => m.membershipType === crossSaveOverride
+    ) ??
+    data.destinyMemberships.at(0);
+
+  return {
+    uniqueName: data.bungieNetUser.uniqueName,
+    profilePicturePath: data.bungieNetUser.profilePicturePath,
+    primaryMembership: primaryMembership
+      ? {
+          membershipType: primaryMembership.membershipType,
+          membershipId: primaryMembership.membershipId,
+        }
+      : null,
+    crossSaveOverride,
+  };
+};
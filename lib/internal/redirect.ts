@@ -0,0 +1,64 @@
+import type { NextBungieAuthConfig } from "../types";
+import { getPublicOrigin } from "./origin";
+
+/**
+ * Resolves a redirect target against the request and checks that it points at the
+ * request's own origin or one of the `allowedRedirectOrigins`. Behind a proxy, the origin
+ * is the public one the browser sees, like in the CSRF check.
+ *
+ * Root relative paths are resolved within the `basePath`, and other relative paths against
+ * the request URL. Protocol relative URLs such as `//evil.com` and non-http(s) URLs are
+ * never allowed.
+ *
+ * @returns The absolute URL, or null if the value is missing, malformed or not allowed.
+ * @internal
+ */
+export const sanitizeRedirectUrl = (
+  value: string | null,
+  request: Request,
+  config: NextBungieAuthConfig
+): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  // Browsers treat backslashes as slashes, so `/\evil.com` would be protocol relative
+  if (/^[/\\]{2}/.test(value)) {
+    return null;
+  }
+
+  const requestUrl = new URL(request.url);
+  const publicOrigin = getPublicOrigin((name) => request.headers.get(name), {
+    protocol: requestUrl.protocol.slice(0, -1),
+    host: requestUrl.host,
+  });
+
+  let url: URL;
+  try {
+    // Root relative paths are relative to the basePath, like `redirect` from next/navigation
+    url = new URL(
+      value.startsWith("/") ? `${config.basePath}${value}` : value,
+      `${publicOrigin}${requestUrl.pathname}${requestUrl.search}`
+    );
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return null;
+  }
+
+  const allowedOrigins = [
+    requestUrl.origin,
+    publicOrigin,
+    ...config.allowedRedirectOrigins.map((origin) => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        return origin;
+      }
+    }),
+  ];
+
+  return allowedOrigins.includes(url.origin) ? url.toString() : null;
+};
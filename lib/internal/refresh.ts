@@ -0,0 +1,145 @@
+import type {
+  NextBungieAuthConfig,
+  NextBungieAuthRefreshCoordinator,
+  NextBungieAuthRefreshResult,
+} from "../types";
+import { hashToken } from "./crypto";
+import type { RequestLogger } from "./logger";
+import { getTokens } from "./tokens";
+
+/** The time in seconds a refresh lock is held before it is considered abandoned */
+const LOCK_TTL = 10;
+/** The time in milliseconds between checks for a result while another instance holds the lock */
+const LOCK_POLL_INTERVAL = 250;
+
+// Refreshes currently in progress in this process, keyed by the hashed refresh token
+const inFlightRefreshes = new Map<
+  string,
+  Promise<NextBungieAuthRefreshResult>
+>();
+// Recently completed refreshes, so late callers using the rotated refresh token
+// receive the new tokens instead of an invalid_grant error
+const recentRefreshes = new Map<
+  string,
+  { result: NextBungieAuthRefreshResult; expiresAt: number }
+>();
+
+const requestRefreshedTokens = async (
+  refreshToken: string,
+  config: NextBungieAuthConfig,
+  log?: RequestLogger
+): Promise<NextBungieAuthRefreshResult> => {
+  const tokens = await getTokens(
+    {
+      grantType: "refresh_token",
+      value: refreshToken,
+    },
+    config,
+    log
+  );
+
+  return {
+    tokens,
+    issuedAt: Date.now(),
+  };
+};
+
+const coordinatedRefresh = async (
+  key: string,
+  refreshToken: string,
+  coordinator: NextBungieAuthRefreshCoordinator,
+  config: NextBungieAuthConfig,
+  log?: RequestLogger
+): Promise<NextBungieAuthRefreshResult> => {
+  const existing = await coordinator.getResult(key);
+  if (existing) {
+    return existing;
+  }
+
+  const isLockHolder = await coordinator.acquire(key, LOCK_TTL);
+  if (!isLockHolder) {
+    // Another instance is refreshing this token, wait for it to publish the result
+    const deadline = Date.now() + LOCK_TTL * 1000;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL));
+      const result = await coordinator.getResult(key);
+      if (result) {
+        return result;
+      }
+    }
+    // The lock holder failed or was abandoned, so fall through and try ourselves
+  }
+
+  try {
+    const result = await requestRefreshedTokens(refreshToken, config, log);
+    await coordinator.setResult(key, result, config.refreshReuseWindow);
+    return result;
+  } finally {
+    if (isLockHolder) {
+      await coordinator.release(key);
+    }
+  }
+};
+
+/**
+ * Exchanges the refresh token for new tokens, ensuring that concurrent refreshes of the
+ * same token are coalesced into a single request to bungie.net.
+ *
+ * Within this process, concurrent callers share the same pending request. If a
+ * `refreshCoordinator` is configured, it is used to coordinate with other instances.
+ * Results are reused for `refreshReuseWindow` seconds, so a caller which arrives after
+ * the token was rotated still receives the new tokens.
+ *
+ * Retries of the shared request are reported to the logger of the caller which started it.
+ *
+ * @internal
+ */
+export const refreshTokens = async (
+  refreshToken: string,
+  config: NextBungieAuthConfig,
+  log?: RequestLogger
+): Promise<NextBungieAuthRefreshResult> => {
+  // Refresh tokens are hashed, so the raw token is never sent to the coordinator
+  const key = await hashToken(refreshToken);
+
+  const now = Date.now();
+  recentRefreshes.forEach(({ expiresAt }, recentKey) => {
+    if (expiresAt <= now) {
+      recentRefreshes.delete(recentKey);
+    }
+  });
+
+  const recent = recentRefreshes.get(key);
+  if (recent) {
+    return recent.result;
+  }
+
+  let pending = inFlightRefreshes.get(key);
+  if (!pending) {
+    pending = (
+      config.refreshCoordinator
+        ? coordinatedRefresh(
+            key,
+            refreshToken,
+            config.refreshCoordinator,
+            config,
+            log
+          )
+        : requestRefreshedTokens(refreshToken, config, log)
+    )
+      .then((result) => {
+        recentRefreshes.set(key, {
+          result,
+          expiresAt: Date.now() + config.refreshReuseWindow * 1000,
+        });
+        return result;
+      })
+      .finally(() => {
+        inFlightRefreshes.delete(key);
+      });
+
+    inFlightRefreshes.set(key, pending);
+  }
+
+  return await pending;
+};
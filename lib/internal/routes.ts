@@ -0,0 +1,58 @@
+import type { NextBungieAuthRoutes } from "../types";
+
+/** @internal */
+export const DefaultBungieAuthRoutes: NextBungieAuthRoutes = {
+  authorize: "authorize",
+  callback: "callback",
+  session: "session",
+  refresh: "refresh",
+  deauthorize: "deauthorize",
+  switchAccount: "switch-account",
+  removeAccount: "remove-account",
+};
+
+/**
+ * Fills in the default segment of each route which was not renamed.
+ *
+ * @internal
+ */
+export const resolveRoutes = (
+  routes: Partial<NextBungieAuthRoutes> = {}
+): NextBungieAuthRoutes => ({
+  ...DefaultBungieAuthRoutes,
+  ...routes,
+});
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, "");
+
+/**
+ * Joins a base path and a route segment, such as `/api/auth` and `session`.
+ *
+ * @internal
+ */
+export const joinRoutePath = (basePath: string, segment: string) =>
+  `${basePath.replace(/\/+$/, "")}/${trimSlashes(segment)}`;
+
+/**
+ * Finds the route whose segment the path ends with, out of the given routes. Segments may
+ * span several path segments, such as `oauth/callback`, so the longest match wins.
+ *
+ * @internal
+ */
+export const matchRoute = <K extends keyof NextBungieAuthRoutes>(
+  pathname: string,
+  routes: NextBungieAuthRoutes,
+  candidates: readonly K[]
+): K | undefined => {
+  const path = `/${trimSlashes(pathname)}`;
+
+  let match: { route: K; length: number } | undefined;
+  candidates.forEach((route) => {
+    const segment = `/${trimSlashes(routes[route])}`;
+    if (path.endsWith(segment) && (!match || segment.length > match.length)) {
+      match = { route, length: segment.length };
+    }
+  });
+
+  return match?.route;
+};
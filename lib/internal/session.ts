@@ -1,25 +1,76 @@
-import type { ReadonlyRequestCookies } from "next/dist/server/web/spec-extension/adapters/request-cookies";
-import { clearAllCookies, getAllCookies, setAllCookies } from "./cookies";
+import {
+  clearAllCookies,
+  getAllCookies,
+  setAllCookies,
+  touchStoredSession,
+} from "./cookies";
 import { BungieAuthorizationError } from "./error";
-import { getTokens } from "./tokens";
+import type { RequestLogger } from "./logger";
+import { refreshTokens } from "./refresh";
 import type {
+  CookieJar,
   NextBungieAuthConfig,
+  NextBungieAuthProfile,
+  NextBungieAuthSessionData,
   NextBungieAuthSessionResponse,
 } from "../types";
 
+/**
+ * Builds the data of an authorized session, leaving out the dates which are not known.
+ *
+ * @internal
+ */
+export const buildSessionData = ({
+  bungieMembershipId,
+  accessToken,
+  accessExpires,
+  refreshExpires,
+  authenticatedAt,
+  profile,
+}: {
+  bungieMembershipId: string;
+  accessToken: string;
+  accessExpires: Date;
+  refreshExpires: Date | null;
+  authenticatedAt: Date | null;
+  profile: NextBungieAuthProfile | null;
+}): NextBungieAuthSessionData => ({
+  bungieMembershipId,
+  accessToken,
+  accessTokenExpiresAt: accessExpires.toISOString(),
+  ...(refreshExpires
+    ? { refreshTokenExpiresAt: refreshExpires.toISOString() }
+    : {}),
+  ...(authenticatedAt
+    ? { authenticatedAt: authenticatedAt.toISOString() }
+    : {}),
+  ...(profile ? { profile } : {}),
+});
+
 /** @internal */
 export const refreshSession = async (
-  cookies: ReadonlyRequestCookies,
-  config: NextBungieAuthConfig
+  cookies: CookieJar,
+  config: NextBungieAuthConfig,
+  request: Request | null = null,
+  log?: RequestLogger
 ): Promise<{
   session: NextBungieAuthSessionResponse & {
     status: "authorized" | "expired" | "unauthorized" | "error" | "disabled";
   };
   message: string;
+  bungieErrorCode?: string;
 }> => {
-  const { bungieMembershipId, refreshToken } = getAllCookies(cookies, config);
+  const {
+    bungieMembershipId,
+    refreshToken,
+    accessToken,
+    accessExpires,
+    refreshExpires,
+    authenticatedAt,
+    profile,
+  } = await getAllCookies(cookies, config);
 
-  if (!bungieMembershipId || !refreshToken) {
+  if (!bungieMembershipId || (!refreshToken && !accessToken)) {
     return {
       session: {
         status: "unauthorized",
@@ -29,20 +80,46 @@ export const refreshSession = async (
     };
   }
 
-  try {
-    const tokens = await getTokens(
-      {
-        grantType: "refresh_token",
-        value: refreshToken,
+  if (!refreshToken) {
+    // Public clients cannot refresh, so the session lasts until the access token expires
+    if (!accessToken || accessExpires.getTime() <= Date.now()) {
+      await clearAllCookies(cookies, config);
+      return {
+        session: {
+          status: "expired",
+          data: null,
+        },
+        message: "Access token expired and there is no refresh token",
+      };
+    }
+
+    return {
+      session: {
+        status: "authorized",
+        data: buildSessionData({
+          bungieMembershipId,
+          accessToken,
+          accessExpires,
+          refreshExpires,
+          authenticatedAt,
+          profile,
+        }),
       },
-      config
-    );
+      message: "Session cannot be refreshed without a refresh token",
+    };
+  }
 
-    const sessionAge = tokens.refresh_expires_in * 1000;
-    const accessAge = tokens.expires_in * 1000;
+  try {
+    const { tokens, issuedAt } = await refreshTokens(refreshToken, config, log);
+
+    // The tokens may have been issued to a concurrent request a few moments ago
+    const offset = Date.now() - issuedAt;
+    const sessionAge =
+      (tokens.refresh_expires_in ?? tokens.expires_in) * 1000 - offset;
+    const accessAge = tokens.expires_in * 1000 - offset;
     const accessExpires = new Date(Date.now() + accessAge);
 
-    setAllCookies(
+    await setAllCookies(
       {
         accessExpires,
         accessAge,
@@ -53,25 +130,39 @@ export const refreshSession = async (
       config
     );
 
+    await config.events.onRefresh?.({ tokens, request });
+
     return {
       session: {
         status: "authorized",
-        data: {
+        data: buildSessionData({
           bungieMembershipId: tokens.membership_id,
           accessToken: tokens.access_token,
-          accessTokenExpiresAt: accessExpires.toISOString(),
-        },
+          accessExpires,
+          refreshExpires: tokens.refresh_token
+            ? new Date(Date.now() + sessionAge)
+            : null,
+          authenticatedAt,
+          profile,
+        }),
       },
       message: "Session refreshed",
     };
   } catch (err) {
+    await config.events.onTokenError?.({
+      error: err,
+      grantType: "refresh_token",
+      bungieMembershipId,
+      request,
+    });
+
     if (!(err instanceof BungieAuthorizationError)) {
       return {
         session: {
           status: "error",
           data: null,
         },
-        message: "Unknown error",
+        message: err instanceof Error ? err.message : "Unknown error",
       };
     }
 
@@ -84,34 +175,43 @@ export const refreshSession = async (
           },
         },
         message: `${err.error}: ${err.error_description}`,
+        bungieErrorCode: err.error_description,
       };
     } else {
-      clearAllCookies(cookies, config);
+      await clearAllCookies(cookies, config);
       return {
         session: {
           status: "expired",
           data: null,
         },
         message: `${err.error}: ${err.error_description}`,
+        bungieErrorCode: err.error,
       };
     }
   }
 };
 
 /** @internal */
-export const getSession = (
-  cookies: ReadonlyRequestCookies,
+export const getSession = async (
+  cookies: CookieJar,
   config: NextBungieAuthConfig
-): {
+): Promise<{
   session: NextBungieAuthSessionResponse & {
     status: "authorized" | "unauthorized" | "stale";
   };
   message: string;
-} => {
-  const { bungieMembershipId, refreshToken, accessToken, accessExpires } =
-    getAllCookies(cookies, config);
+}> => {
+  const {
+    bungieMembershipId,
+    refreshToken,
+    accessToken,
+    accessExpires,
+    refreshExpires,
+    authenticatedAt,
+    profile,
+  } = await getAllCookies(cookies, config);
 
-  if (!bungieMembershipId || !refreshToken) {
+  if (!bungieMembershipId || (!refreshToken && !accessToken)) {
     return {
       session: {
         status: "unauthorized",
@@ -121,19 +221,26 @@ export const getSession = (
     };
   }
 
+  await touchStoredSession(cookies, config);
+
   if (
     accessToken &&
-    accessExpires.getTime() - Date.now() / 1000 >
-      config.sessionRefreshGracePeriod
+    // Without a refresh token, the access token is used until it expires
+    (!refreshToken ||
+      accessExpires.getTime() - Date.now() >
+        config.sessionRefreshGracePeriod * 1000)
   ) {
     return {
       session: {
         status: "authorized",
-        data: {
+        data: buildSessionData({
           bungieMembershipId,
-          accessToken: accessToken,
-          accessTokenExpiresAt: accessExpires.toISOString(),
-        },
+          accessToken,
+          accessExpires,
+          refreshExpires,
+          authenticatedAt,
+          profile,
+        }),
       },
       message: `Access token is still valid for ${Math.floor((accessExpires.getTime() - Date.now()) / 60000)} minutes`,
     };
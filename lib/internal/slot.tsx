@@ -0,0 +1,47 @@
+import React from "react";
+
+/**
+ * Renders its only child with the props passed to the slot merged in, for components
+ * which support `asChild`. Event handlers are composed, with the child's handler running
+ * first, class names are joined and styles are merged. Other props of the child win.
+ *
+ * @internal
+ */
+export const Slot = ({
+  children,
+  ...slotProps
+}: React.HTMLAttributes<HTMLElement> & Record<string, unknown>) => {
+  const child = React.Children.only(children);
+  if (!React.isValidElement<Record<string, unknown>>(child)) {
+    return null;
+  }
+
+  const childProps = child.props;
+  const merged: Record<string, unknown> = { ...slotProps };
+
+  Object.entries(childProps).forEach(([key, childValue]) => {
+    const slotValue = slotProps[key];
+
+    if (
+      /^on[A-Z]/.test(key) &&
+      typeof slotValue === "function" &&
+      typeof childValue === "function"
+    ) {
+      merged[key] = (...args: unknown[]) => {
+        (childValue as (...args: unknown[]) => void)(...args);
+        (slotValue as (...args: unknown[]) => void)(...args);
+      };
+    } else if (key === "className" && slotValue) {
+      merged[key] = [slotValue, childValue].filter(Boolean).join(" ");
+    } else if (key === "style" && slotValue) {
+      merged[key] = {
+        ...(slotValue as React.CSSProperties),
+        ...(childValue as React.CSSProperties),
+      };
+    } else {
+      merged[key] = childValue;
+    }
+  });
+
+  return React.cloneElement(child, merged);
+};
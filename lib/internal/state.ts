@@ -0,0 +1,123 @@
+import type { CookieJar, NextBungieAuthConfig } from "../types";
+import { fromBase64Url, randomId, sign, toBase64Url, verify } from "./crypto";
+
+/** The time in seconds a signed state is accepted after it was issued */
+const STATE_MAX_AGE = 900;
+
+/**
+ * The payload of the signed OAuth state. Keys are kept short since the state is sent
+ * through the authorization URL.
+ */
+interface SignedStatePayload {
+  /** A random nonce, so every state is unique */
+  n: string;
+  /** The time the state was issued, in seconds since the epoch */
+  iat: number;
+  /** A hash of the browser binding cookie, so the state cannot be used in another browser */
+  b: string;
+  /** The URL to return to after signing in */
+  r: string | null;
+  /** The reference to the PKCE code verifier, when PKCE is used */
+  v?: string;
+}
+
+const hashBinding = async (binding: string) =>
+  toBase64Url(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", new TextEncoder().encode(binding))
+    )
+  );
+
+/**
+ * Returns the browser binding, creating it if needed. The binding is shared by every
+ * sign in started from the browser, so concurrent sign ins from multiple tabs do not
+ * overwrite each other.
+ */
+const ensureBindingCookie = (
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const binding =
+    cookieJar.get(`${config.baseCookieName}.binding`)?.value ?? randomId();
+
+  // Always set the cookie to extend it to the lifetime of the newest state
+  cookieJar.set(`${config.baseCookieName}.binding`, binding, {
+    ...config.cookieOptions,
+    maxAge: STATE_MAX_AGE,
+  });
+
+  return binding;
+};
+
+/**
+ * Creates an HMAC signed OAuth state which carries the return URL, so no per sign in
+ * cookies are needed. The state is bound to the browser which started the sign in.
+ *
+ * @internal
+ */
+export const createSignedState = async (
+  {
+    returnUrl,
+    verifierRef,
+  }: { returnUrl: string | null; verifierRef?: string },
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+) => {
+  const binding = ensureBindingCookie(cookieJar, config);
+
+  const payload: SignedStatePayload = {
+    n: randomId(16),
+    iat: Math.floor(Date.now() / 1000),
+    b: await hashBinding(binding),
+    r: returnUrl,
+    ...(verifierRef ? { v: verifierRef } : {}),
+  };
+
+  return await sign(
+    toBase64Url(new TextEncoder().encode(JSON.stringify(payload))),
+    config
+  );
+};
+
+/**
+ * Verifies a state produced by `createSignedState`.
+ *
+ * @returns The return URL and PKCE verifier reference, or the reason the state was rejected.
+ * @internal
+ */
+export const verifySignedState = async (
+  state: string,
+  cookieJar: CookieJar,
+  config: NextBungieAuthConfig
+): Promise<
+  | { valid: true; returnUrl: string | null; verifierRef?: string }
+  | { valid: false; reason: string }
+> => {
+  const encodedPayload = await verify(state, config);
+  if (!encodedPayload) {
+    return { valid: false, reason: "Invalid state signature" };
+  }
+
+  let payload: SignedStatePayload;
+  try {
+    payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(encodedPayload))
+    ) as SignedStatePayload;
+  } catch {
+    return { valid: false, reason: "Malformed state" };
+  }
+
+  if (Date.now() / 1000 - payload.iat > STATE_MAX_AGE) {
+    return { valid: false, reason: "State has expired" };
+  }
+
+  const binding = cookieJar.get(`${config.baseCookieName}.binding`)?.value;
+  if (!binding || (await hashBinding(binding)) !== payload.b) {
+    return {
+      valid: false,
+      reason: "State was issued to a different browser",
+    };
+  }
+
+  return { valid: true, returnUrl: payload.r, verifierRef: payload.v };
+};
@@ -0,0 +1,49 @@
+import type {
+  NextBungieAuthSessionRecord,
+  NextBungieAuthSessionStore,
+} from "../types";
+
+/**
+ * Creates a session store which keeps sessions in the memory of the current process.
+ *
+ * This is intended as a reference implementation and for local development. Sessions are
+ * lost on restart and are not shared between instances, so production deployments should
+ * use a store backed by a shared database.
+ */
+export const createMemorySessionStore = (): NextBungieAuthSessionStore => {
+  const sessions = new Map<
+    string,
+    { record: NextBungieAuthSessionRecord; expiresAt: number }
+  >();
+
+  const getEntry = (sessionId: string) => {
+    const entry = sessions.get(sessionId);
+    if (entry && entry.expiresAt <= Date.now()) {
+      sessions.delete(sessionId);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    get: (sessionId) => Promise.resolve(getEntry(sessionId)?.record ?? null),
+    set: (sessionId, record, ttl) => {
+      sessions.set(sessionId, {
+        record,
+        expiresAt: Date.now() + ttl * 1000,
+      });
+      return Promise.resolve();
+    },
+    delete: (sessionId) => {
+      sessions.delete(sessionId);
+      return Promise.resolve();
+    },
+    touch: (sessionId, ttl) => {
+      const entry = getEntry(sessionId);
+      if (entry) {
+        entry.expiresAt = Date.now() + ttl * 1000;
+      }
+      return Promise.resolve();
+    },
+  };
+};
@@ -1,103 +1,296 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-argument */
 import { BungieAuthorizationError } from "./error";
-import type { BungieTokenResponse, NextBungieAuthConfig } from "../types";
+import { decrypt, hashToken } from "./crypto";
+import { createRequestLogger } from "./logger";
+import type { RequestLogger } from "./logger";
+import type {
+  BungieTokenResponse,
+  NextBungieAuthConfig,
+  NextBungieAuthTokenRetry,
+} from "../types";
 
 const responseJsonKeys = [
   "access_token",
   "token_type",
   "expires_in",
-  "refresh_token",
-  "refresh_expires_in",
+  // refresh_token and refresh_expires_in are not issued to public clients
   "membership_id",
 ] as const;
 
 const errorResponseJsonKeys = ["error", "error_description"] as const;
 
-/** @internal */
+/**
+ * The defaults for the options which are not set in `tokenRetry`.
+ *
+ * @internal
+ */
+export const DefaultTokenRetry: NextBungieAuthTokenRetry = {
+  retries: 2,
+  baseDelay: 250,
+  maxDelay: 2000,
+  attemptTimeout: 10_000,
+  totalTimeout: 20_000,
+};
+
+/**
+ * Rejects with the reason of the signal when it aborts, in case `tokenHttp` ignores it.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason as Error), {
+      once: true,
+    });
+    promise.then(resolve, reject);
+  });
+
+const parseTokenResponse = async (res: Response) => {
+  if (res.ok) {
+    const tokenResponse = await res.json();
+
+    if (!responseJsonKeys.every((key) => key in tokenResponse)) {
+      throw new TypeError("Response body is missing required keys");
+    }
+
+    return tokenResponse as BungieTokenResponse;
+  }
+
+  // Handle invalid token response
+  if (res.headers.get("content-type")?.includes("application/json")) {
+    const errorResponse = await res.json();
+
+    if (!errorResponseJsonKeys.every((key) => key in errorResponse)) {
+      throw new TypeError(
+        `Unexpected error response: ${JSON.stringify(errorResponse)}`
+      );
+    }
+
+    throw new BungieAuthorizationError(
+      errorResponse.error,
+      errorResponse.error_description
+    );
+  } else {
+    throw new TypeError(
+      `Invalid response [${res.status}]: ${await res.text()}`
+    );
+  }
+};
+
+/**
+ * Error codes of connections which failed before the request was sent, from Node.js
+ * and undici.
+ */
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const getErrorCode = (err: unknown): unknown =>
+  err && typeof err === "object" && "code" in err ? err.code : undefined;
+
+/**
+ * Whether the request failed before it could reach bungie.net, such as when the
+ * connection was refused. `fetch` reports these as a `TypeError` caused by the
+ * connection error.
+ */
+const isConnectionError = (err: unknown) =>
+  err instanceof Error &&
+  [getErrorCode(err), getErrorCode(err.cause)].some(
+    (code) => typeof code === "string" && CONNECTION_ERROR_CODES.has(code)
+  );
+
+/**
+ * Whether a failed attempt may safely be repeated. Codes are single use and refresh
+ * tokens rotate, so an attempt which may have been processed by bungie.net must not be
+ * repeated, or the retry is rejected with `invalid_grant`. That rules out timeouts and
+ * network errors after the request was sent, and any failure of the authorization code
+ * grant other than a connection error.
+ */
+const isRetryable = (
+  err: unknown,
+  status: number | undefined,
+  grantType: "authorization_code" | "refresh_token"
+) => {
+  if (isConnectionError(err)) {
+    return true;
+  }
+
+  if (grantType === "authorization_code" || status === undefined) {
+    return false;
+  }
+
+  // Maintenance lasts far longer than the retries would
+  if (
+    err instanceof BungieAuthorizationError &&
+    err.error_description === "SystemDisabled"
+  ) {
+    return false;
+  }
+
+  return status >= 500;
+};
+
+/** The time in milliseconds an attempt which may have used a token is remembered */
+const UNCERTAIN_ATTEMPT_WINDOW = 600_000;
+
+// Hashed codes and refresh tokens whose request failed after it may have reached
+// bungie.net, such as by timing out, mapped to when they are forgotten
+const uncertainAttempts = new Map<string, number>();
+
+const rememberUncertainAttempt = (key: string) => {
+  const now = Date.now();
+  uncertainAttempts.forEach((expiresAt, uncertainKey) => {
+    if (expiresAt <= now) {
+      uncertainAttempts.delete(uncertainKey);
+    }
+  });
+  uncertainAttempts.set(key, now + UNCERTAIN_ATTEMPT_WINDOW);
+};
+
+const isUncertainAttempt = (key: string) =>
+  (uncertainAttempts.get(key) ?? 0) > Date.now();
+
+/**
+ * Requests tokens from bungie.net, retrying failures which may be transient with
+ * exponential backoff and full jitter. Retries are reported to the logger.
+ *
+ * If the token is rejected with `invalid_grant` after an earlier attempt to use it
+ * failed without a response, in this or a recent call, an `Error` is thrown instead of
+ * the `BungieAuthorizationError`, so the session is kept rather than signed out.
+ *
+ * @internal
+ */
 export const getTokens = async (
   {
     grantType,
     value,
+    codeVerifier,
   }: {
     grantType: "authorization_code" | "refresh_token";
     value: string;
+    codeVerifier?: string;
   },
-  config: NextBungieAuthConfig
+  config: NextBungieAuthConfig,
+  log: RequestLogger = createRequestLogger(
+    config,
+    grantType === "authorization_code" ? "callback" : "refresh",
+    null
+  )
 ) => {
-  const data = await config
-    .tokenHttp({
-      clientId: config.clientId,
-      clientSecret: config.clientSecret,
-      grantType,
-      grantKey: grantType === "authorization_code" ? "code" : "refresh_token",
-      value,
-    })
-    .then(async (res) => {
-      if (res.ok) {
-        const tokenResponse = await res.json();
-
-        if (!responseJsonKeys.every((key) => key in tokenResponse)) {
-          throw new TypeError("Response body is missing required keys");
-        }
+  const { retries, baseDelay, maxDelay, attemptTimeout, totalTimeout } = {
+    ...DefaultTokenRetry,
+    ...config.tokenRetry,
+  };
+  const deadline = Date.now() + totalTimeout;
+  const key = await hashToken(value);
+  log.addSensitiveValue(value);
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () =>
+        controller.abort(
+          new DOMException("Token request timed out", "TimeoutError")
+        ),
+      Math.max(0, Math.min(attemptTimeout, deadline - Date.now()))
+    );
+    const { signal } = controller;
 
-        return tokenResponse as BungieTokenResponse;
+    let status: number | undefined;
+    try {
+      return await abortable(
+        config
+          .tokenHttp({
+            bungieBaseUrl: config.bungieBaseUrl,
+            clientId: config.clientId,
+            clientSecret: config.clientSecret,
+            grantType,
+            grantKey:
+              grantType === "authorization_code" ? "code" : "refresh_token",
+            value,
+            codeVerifier,
+            signal,
+          })
+          .then(async (res) => {
+            status = res.status;
+            const tokens = await parseTokenResponse(res);
+            log.addSensitiveValue(tokens.access_token);
+            log.addSensitiveValue(tokens.refresh_token);
+            return tokens;
+          }),
+        signal
+      ).finally(() => clearTimeout(timeout));
+    } catch (err) {
+      if (
+        err instanceof BungieAuthorizationError &&
+        err.error === "invalid_grant" &&
+        isUncertainAttempt(key)
+      ) {
+        // An earlier attempt may have used the token, in which case the session is
+        // not necessarily over, so the rejection is reported as an error instead
+        log(
+          "warn",
+          "Token rejected after an earlier attempt failed without a response",
+          { attempt, bungieErrorCode: err.error }
+        );
+        throw new Error(
+          "The token was rejected after an earlier attempt to use it failed without a response",
+          { cause: err }
+        );
+      }
+
+      if (!isConnectionError(err) && (status === undefined || status >= 500)) {
+        rememberUncertainAttempt(key);
       }
 
-      // Handle invalid token response
-      if (res.headers.get("content-type")?.includes("application/json")) {
-        const errorResponse = await res.json();
+      const message = err instanceof Error ? err.message : "unknown error";
+      const delay = Math.round(
+        Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+      );
 
-        if (!errorResponseJsonKeys.every((key) => key in errorResponse)) {
-          throw new TypeError(
-            `Unexpected error response: ${JSON.stringify(errorResponse)}`
+      if (
+        attempt > retries ||
+        !isRetryable(err, status, grantType) ||
+        Date.now() + delay >= deadline
+      ) {
+        if (attempt > 1) {
+          log(
+            "warn",
+            `Token request failed after ${attempt} attempts: ${message}`,
+            {
+              attempt,
+            }
           );
         }
-
-        throw new BungieAuthorizationError(
-          errorResponse.error,
-          errorResponse.error_description
-        );
-      } else {
-        throw new TypeError(
-          `Invalid response [${res.status}]: ${await res.text()}`
-        );
+        throw err;
       }
-    });
-
-  return data;
-};
 
-/** @internal */
-export const encodeToken = (data: string, config: NextBungieAuthConfig) => {
-  return btoa(
-    data
-      .split("")
-      .map((c, i) =>
-        String.fromCharCode(
-          c.charCodeAt(0) +
-            config.clientSecret.charCodeAt(i % config.clientSecret.length)
-        )
-      )
-      .join("")
-  );
+      log("warn", `Token request failed, retrying: ${message}`, {
+        attempt,
+        retryInMs: delay,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
 };
 
-/** @internal */
-export const decodeToken = (
+/**
+ * Decodes a token cookie of the legacy session layout. Returns null if the cookie is
+ * missing, or if it cannot be authenticated with any of the secrets in the keyring.
+ *
+ * @internal
+ */
+export const decodeToken = async (
   encodedStr: string | undefined,
+  type: "access" | "refresh",
   config: NextBungieAuthConfig
 ) => {
   if (!encodedStr) {
     return null;
   }
 
-  return atob(encodedStr)
-    .split("")
-    .map((c, i) =>
-      String.fromCharCode(
-        c.charCodeAt(0) -
-          config.clientSecret.charCodeAt(i % config.clientSecret.length)
-      )
-    )
-    .join("");
+  return await decrypt(encodedStr, type, config);
 };
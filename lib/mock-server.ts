@@ -0,0 +1,464 @@
+import type { BungieTokenResponse } from "./types";
+import { createCodeChallenge, randomId } from "./internal/crypto";
+
+/**
+ * A fake Bungie.net user which can sign in to the mock server.
+ */
+export interface MockBungieUser {
+  /**
+   * The Bungie.net membership id of the user.
+   */
+  membershipId: string;
+  /**
+   * The Bungie name of the user, such as `Guardian#1234`.
+   */
+  uniqueName: string;
+  /**
+   * The Destiny memberships returned by GetMembershipsForCurrentUser.
+   * Defaults to no memberships.
+   */
+  destinyMemberships?: {
+    membershipType: number;
+    membershipId: string;
+    crossSaveOverride: number;
+  }[];
+}
+
+/**
+ * A failure the mock server can be told to return from the token endpoint.
+ *
+ * - `invalid_grant` - The authorization code or refresh token was rejected.
+ * - `SystemDisabled` - Bungie.net is down for maintenance.
+ * - `server_error` - An unexpected 500 error with an HTML body.
+ */
+export type MockBungieFailure =
+  | "invalid_grant"
+  | "SystemDisabled"
+  | "server_error";
+
+export interface MockBungieServerOptions {
+  /**
+   * The URL of your callback route, which the consent page redirects to. This is the
+   * equivalent of the redirect URL registered for your application on bungie.net.
+   */
+  redirectUrl: string;
+  /**
+   * When set, authorization and token requests must use this client id.
+   */
+  clientId?: string;
+  /**
+   * When set, token requests must authenticate with this client secret.
+   */
+  clientSecret?: string;
+  /**
+   * Mocks an application with the "Public" client type. Sign ins must use PKCE, and no
+   * refresh tokens are issued. Defaults to false.
+   */
+  publicClient?: boolean;
+  /**
+   * The users which can sign in. Defaults to a single user.
+   */
+  users?: MockBungieUser[];
+  /**
+   * The lifetime of access tokens in seconds. Defaults to 3600 (1 hour).
+   */
+  accessTokenLifetime?: number;
+  /**
+   * The lifetime of refresh tokens in seconds. Defaults to 7776000 (90 days).
+   */
+  refreshTokenLifetime?: number;
+  /**
+   * When enabled, a refresh token can only be used once, as on bungie.net. Defaults to true.
+   */
+  rotateRefreshTokens?: boolean;
+  /**
+   * When set, the consent page is skipped and this user is signed in immediately, which
+   * is useful for end-to-end tests.
+   */
+  autoApprove?: string;
+}
+
+export interface MockBungieServer {
+  /**
+   * Handles a request to the mock server. Can be exported as the `GET` and `POST`
+   * handlers of a catch-all route, or passed to any server which speaks the Fetch API.
+   */
+  fetch: (request: Request) => Promise<Response>;
+  /**
+   * Makes the next token requests fail.
+   *
+   * @param failure The failure to return.
+   * @param count The number of requests which should fail. Defaults to 1.
+   */
+  failNext: (failure: MockBungieFailure, count?: number) => void;
+  /**
+   * Revokes every authorization code and token issued to the user, so their next sign in
+   * or refresh fails with `invalid_grant`.
+   */
+  revoke: (membershipId: string) => void;
+}
+
+interface IssuedToken {
+  membershipId: string;
+  expiresAt: number;
+}
+
+interface IssuedCode extends IssuedToken {
+  codeChallenge: string | null;
+}
+
+const DEFAULT_USERS: MockBungieUser[] = [
+  {
+    membershipId: "4611686018400000000",
+    uniqueName: "Guardian#0001",
+    destinyMemberships: [
+      {
+        membershipType: 3,
+        membershipId: "4611686018500000000",
+        crossSaveOverride: 0,
+      },
+    ],
+  },
+];
+
+/** The time in seconds an authorization code can be exchanged */
+const CODE_LIFETIME = 300;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+const oauthError = (error: string, description: string, status = 400) =>
+  jsonResponse({ error, error_description: description }, status);
+
+const platformError = (
+  errorCode: number,
+  errorStatus: string,
+  message: string,
+  status: number
+) =>
+  jsonResponse(
+    {
+      ErrorCode: errorCode,
+      ErrorStatus: errorStatus,
+      Message: message,
+      ThrottleSeconds: 0,
+      MessageData: {},
+    },
+    status
+  );
+
+const escapeHtml = (str: string) =>
+  str.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char] ?? char
+  );
+
+const consentPage = (url: URL, users: MockBungieUser[]) => {
+  const links = users
+    .map((user) => {
+      const approveUrl = new URL(url);
+      approveUrl.searchParams.set("membership_id", user.membershipId);
+      return `<li><a href="${escapeHtml(approveUrl.toString())}" data-membership-id="${escapeHtml(user.membershipId)}">Sign in as ${escapeHtml(user.uniqueName)}</a></li>`;
+    })
+    .join("");
+
+  return new Response(
+    `<!DOCTYPE html><html><head><title>Mock Bungie.net</title></head><body><h1>Authorize application</h1><ul>${links}</ul></body></html>`,
+    { headers: { "content-type": "text/html; charset=utf-8" } }
+  );
+};
+
+/**
+ * Creates a mock of the Bungie.net OAuth server, for offline development and end-to-end
+ * tests. Implements the authorization consent page, the token endpoint and
+ * GetMembershipsForCurrentUser.
+ *
+ * Set `bungieBaseUrl` in your config to the URL the mock server is mounted at, so that
+ * the authorize route and the default `tokenHttp` use it instead of bungie.net.
+ *
+ * @example
+ * ```ts
+ * // app/mock-bungie/[...path]/route.ts
+ * const server = createMockBungieServer({
+ *   redirectUrl: "http://localhost:3000/api/auth/callback",
+ * });
+ *
+ * export const GET = server.fetch;
+ * export const POST = server.fetch;
+ * ```
+ */
+export const createMockBungieServer = ({
+  redirectUrl,
+  clientId,
+  clientSecret,
+  publicClient = false,
+  users = DEFAULT_USERS,
+  accessTokenLifetime = 3600,
+  refreshTokenLifetime = 7_776_000,
+  rotateRefreshTokens = true,
+  autoApprove,
+}: MockBungieServerOptions): MockBungieServer => {
+  const codes = new Map<string, IssuedCode>();
+  // Exchanged authorization codes, mapped to the user they were issued to
+  const usedCodes = new Map<string, string>();
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Map<string, IssuedToken>();
+  const failures: MockBungieFailure[] = [];
+
+  /**
+   * Issues a new access token, along with the given refresh token, or a new one if
+   * none is given. Public clients never receive a refresh token.
+   */
+  const issueTokens = (
+    membershipId: string,
+    refreshToken: [string, IssuedToken] = [
+      `mock-refresh.${randomId(24)}`,
+      { membershipId, expiresAt: Date.now() + refreshTokenLifetime * 1000 },
+    ]
+  ): BungieTokenResponse => {
+    const accessToken = `mock-access.${randomId(24)}`;
+    accessTokens.set(accessToken, {
+      membershipId,
+      expiresAt: Date.now() + accessTokenLifetime * 1000,
+    });
+
+    const tokens: BungieTokenResponse = {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: accessTokenLifetime,
+      membership_id: membershipId,
+    };
+    if (publicClient) {
+      return tokens;
+    }
+
+    refreshTokens.set(...refreshToken);
+    return {
+      ...tokens,
+      refresh_token: refreshToken[0],
+      refresh_expires_in: Math.round(
+        (refreshToken[1].expiresAt - Date.now()) / 1000
+      ),
+      membership_id: membershipId,
+    };
+  };
+
+  const authorize = (url: URL) => {
+    const state = url.searchParams.get("state") ?? "";
+
+    if (url.searchParams.get("response_type") !== "code") {
+      return new Response("response_type must be code", { status: 400 });
+    }
+    if (clientId && url.searchParams.get("client_id") !== clientId) {
+      return new Response("Unknown client_id", { status: 400 });
+    }
+
+    const membershipId = url.searchParams.get("membership_id") ?? autoApprove;
+    if (!membershipId) {
+      return consentPage(url, users);
+    }
+    if (!users.some((user) => user.membershipId === membershipId)) {
+      return new Response("Unknown user", { status: 400 });
+    }
+
+    const codeChallenge = url.searchParams.get("code_challenge");
+    if (
+      codeChallenge &&
+      url.searchParams.get("code_challenge_method") !== "S256"
+    ) {
+      return new Response("code_challenge_method must be S256", {
+        status: 400,
+      });
+    }
+    if (publicClient && !codeChallenge) {
+      return new Response("code_challenge is required for public clients", {
+        status: 400,
+      });
+    }
+
+    const code = randomId(16);
+    codes.set(code, {
+      membershipId,
+      expiresAt: Date.now() + CODE_LIFETIME * 1000,
+      codeChallenge,
+    });
+
+    const callback = new URL(redirectUrl);
+    callback.searchParams.set("code", code);
+    callback.searchParams.set("state", state);
+    return Response.redirect(callback.toString(), 302);
+  };
+
+  const token = async (request: Request) => {
+    const body = new URLSearchParams(await request.text());
+
+    if (publicClient) {
+      if (clientId && body.get("client_id") !== clientId) {
+        return oauthError("invalid_client", "InvalidClientCredentials", 401);
+      }
+    } else if (clientSecret) {
+      const expected = `Basic ${btoa(`${clientId ?? body.get("client_id")}:${clientSecret}`)}`;
+      if (request.headers.get("authorization") !== expected) {
+        return oauthError("invalid_client", "InvalidClientCredentials", 401);
+      }
+    }
+
+    switch (failures.shift()) {
+      case "invalid_grant":
+        return oauthError("invalid_grant", "AuthorizationRecordRevoked");
+      case "SystemDisabled":
+        return oauthError("server_error", "SystemDisabled", 503);
+      case "server_error":
+        return new Response(
+          "<html><head><title>Internal Server Error</title></head></html>",
+          { status: 500, headers: { "content-type": "text/html" } }
+        );
+    }
+
+    const now = Date.now();
+    switch (body.get("grant_type")) {
+      case "authorization_code": {
+        const code = body.get("code") ?? "";
+        const reusedBy = usedCodes.get(code);
+        if (reusedBy) {
+          // A code exchanged twice may have been intercepted, so its tokens are revoked
+          revokeTokens(reusedBy);
+          return oauthError("invalid_grant", "AuthorizationCodeInvalid");
+        }
+
+        const issued = codes.get(code);
+        codes.delete(code);
+        if (issued) {
+          usedCodes.set(code, issued.membershipId);
+        }
+        if (!issued || issued.expiresAt <= now) {
+          return oauthError("invalid_grant", "AuthorizationCodeInvalid");
+        }
+        if (
+          issued.codeChallenge &&
+          issued.codeChallenge !==
+            (await createCodeChallenge(body.get("code_verifier") ?? ""))
+        ) {
+          return oauthError("invalid_grant", "InvalidCodeVerifier");
+        }
+        return jsonResponse(issueTokens(issued.membershipId));
+      }
+      case "refresh_token": {
+        const refreshToken = body.get("refresh_token") ?? "";
+        const issued = refreshTokens.get(refreshToken);
+        if (!issued || issued.expiresAt <= now) {
+          refreshTokens.delete(refreshToken);
+          return oauthError("invalid_grant", "AuthorizationRecordExpired");
+        }
+        if (rotateRefreshTokens) {
+          refreshTokens.delete(refreshToken);
+          return jsonResponse(issueTokens(issued.membershipId));
+        }
+        return jsonResponse(
+          issueTokens(issued.membershipId, [refreshToken, issued])
+        );
+      }
+      default:
+        return oauthError("unsupported_grant_type", "UnsupportedGrantType");
+    }
+  };
+
+  const getMembershipsForCurrentUser = (request: Request) => {
+    const accessToken = request.headers
+      .get("authorization")
+      ?.replace(/^Bearer /, "");
+    const issued = accessToken ? accessTokens.get(accessToken) : undefined;
+    if (!issued) {
+      return platformError(
+        99,
+        "WebAuthRequired",
+        "Please sign-in to continue.",
+        401
+      );
+    }
+    if (issued.expiresAt <= Date.now()) {
+      return platformError(
+        2111,
+        "AccessTokenHasExpired",
+        "The access token has expired.",
+        401
+      );
+    }
+
+    const user = users.find((u) => u.membershipId === issued.membershipId);
+    const destinyMemberships = user?.destinyMemberships ?? [];
+    return jsonResponse({
+      Response: {
+        destinyMemberships,
+        primaryMembershipId: destinyMemberships.find(
+          (m) => m.crossSaveOverride === m.membershipType
+        )?.membershipId,
+        bungieNetUser: {
+          membershipId: issued.membershipId,
+          uniqueName: user?.uniqueName ?? "",
+          profilePicturePath: "/img/profile/avatars/default_avatar.gif",
+        },
+      },
+      ErrorCode: 1,
+      ErrorStatus: "Success",
+      Message: "Ok",
+      ThrottleSeconds: 0,
+      MessageData: {},
+    });
+  };
+
+  const revokeFrom = (tokens: Map<string, IssuedToken>, membershipId: string) =>
+    tokens.forEach((issued, key) => {
+      if (issued.membershipId === membershipId) {
+        tokens.delete(key);
+      }
+    });
+
+  const revokeTokens = (membershipId: string) => {
+    revokeFrom(accessTokens, membershipId);
+    revokeFrom(refreshTokens, membershipId);
+  };
+
+  return {
+    fetch: async (request) => {
+      const url = new URL(request.url);
+      // The server may be mounted below a path prefix, so only the end of the path is matched
+      const path = url.pathname.toLowerCase().replace(/\/+$/, "");
+
+      if (request.method === "GET" && path.endsWith("/en/oauth/authorize")) {
+        return authorize(url);
+      }
+      if (
+        request.method === "POST" &&
+        path.endsWith("/platform/app/oauth/token")
+      ) {
+        return await token(request);
+      }
+      if (
+        request.method === "GET" &&
+        path.endsWith("/platform/user/getmembershipsforcurrentuser")
+      ) {
+        return getMembershipsForCurrentUser(request);
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+    failNext: (failure, count = 1) => {
+      failures.push(...Array<MockBungieFailure>(count).fill(failure));
+    },
+    revoke: (membershipId) => {
+      revokeFrom(codes, membershipId);
+      revokeTokens(membershipId);
+    },
+  };
+};
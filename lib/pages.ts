@@ -0,0 +1,151 @@
+import type {
+  GetServerSidePropsContext,
+  NextApiHandler,
+  NextApiRequest,
+  NextApiResponse,
+} from "next";
+import type {
+  NextBungieAuthConfig,
+  NextBungieAuthConfigRequiredKeys,
+  NextBungieAuthSessionResponse,
+} from "./types";
+import { createBungieAuth } from "./core";
+import { createCookieJar } from "./internal/jar";
+import { getPublicOrigin } from "./internal/origin";
+
+type PagesRequest = NextApiRequest | GetServerSidePropsContext["req"];
+type PagesResponse = NextApiResponse | GetServerSidePropsContext["res"];
+
+const getHeader = (req: PagesRequest, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Converts a Pages Router request into a standard `Request`, whose URL uses the origin
+ * the browser sees.
+ */
+const toRequest = (req: PagesRequest) => {
+  const origin = getPublicOrigin((name) => getHeader(req, name), {
+    protocol: "http",
+    host: "localhost",
+  });
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(key, v));
+    } else if (value !== undefined) {
+      headers.set(key, value);
+    }
+  });
+
+  const method = req.method ?? "GET";
+  // Next.js parses the body of API routes, so it is serialized again
+  const body: unknown = "body" in req ? req.body : undefined;
+  const hasBody = method !== "GET" && method !== "HEAD" && body !== undefined;
+
+  return new Request(new URL(req.url ?? "/", origin), {
+    method,
+    headers,
+    body: hasBody
+      ? typeof body === "string"
+        ? body
+        : JSON.stringify(body)
+      : undefined,
+  });
+};
+
+/**
+ * Appends cookies to the `Set-Cookie` header of the Node.js response, keeping any
+ * cookies set by the app.
+ */
+const appendSetCookies = (res: PagesResponse, setCookies: string[]) => {
+  if (!setCookies.length) {
+    return;
+  }
+
+  const existing = res.getHeader("Set-Cookie");
+  res.setHeader("Set-Cookie", [
+    ...(Array.isArray(existing)
+      ? existing
+      : existing !== undefined
+        ? [String(existing)]
+        : []),
+    ...setCookies,
+  ]);
+};
+
+/**
+ * Copies the status, headers and body of a response to the Node.js response.
+ */
+const sendResponse = async (response: Response, res: PagesResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => {
+    if (key !== "set-cookie") {
+      res.setHeader(key, value);
+    }
+  });
+  appendSetCookies(res, response.headers.getSetCookie());
+  res.end(await response.text());
+};
+
+/**
+ * Creates an API route handler and server-side helpers for the Pages Router. It is built
+ * on `createBungieAuth` from `next-bungie-auth/core`, so it shares the token and session
+ * logic with the App Router handlers.
+ *
+ * @example
+ * ```ts
+ * // pages/api/auth/[...bungie].ts
+ * export const { handler, getServerSession } = createPagesApiHandler({
+ *   clientId: process.env.BUNGIE_CLIENT_ID!,
+ *   clientSecret: process.env.BUNGIE_CLIENT_SECRET!,
+ *   secret: process.env.NEXT_BUNGIE_AUTH_SECRET!,
+ * });
+ *
+ * export default handler;
+ * ```
+ */
+export const createPagesApiHandler = (
+  config: Partial<NextBungieAuthConfig> &
+    Pick<NextBungieAuthConfig, NextBungieAuthConfigRequiredKeys>
+): {
+  /**
+   * Serves the authorize, callback, session, refresh, deauthorize, switch-account and
+   * remove-account routes. Export it as the default export of `pages/api/auth/[...bungie].ts`.
+   */
+  handler: NextApiHandler;
+  /**
+   * Retrieves the session in `getServerSideProps` or an API route. Unlike server
+   * components, these can set cookies, so a stale session is refreshed.
+   */
+  getServerSession: (
+    req: PagesRequest,
+    res: PagesResponse
+  ) => Promise<NextBungieAuthSessionResponse>;
+} => {
+  const { handle, serverSideHelpers } = createBungieAuth(config);
+
+  return {
+    handler: async (req, res) => {
+      const request = toRequest(req);
+      const cookieJar = createCookieJar(request);
+
+      const response = await handle(request, cookieJar);
+      await sendResponse(cookieJar.applyTo(response), res);
+    },
+    getServerSession: async (req, res) => {
+      const cookieJar = createCookieJar(toRequest(req));
+
+      let session = await serverSideHelpers.getServerSession(cookieJar);
+      if (session.status === "stale") {
+        ({ session } =
+          await serverSideHelpers.getRefreshedServerSession(cookieJar));
+      }
+
+      appendSetCookies(res, cookieJar.getSetCookieHeaders());
+      return session;
+    },
+  };
+};
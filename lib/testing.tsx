@@ -0,0 +1,360 @@
+import React from "react";
+import type {
+  BungieSession,
+  BungieSessionState,
+  BungieTokenResponse,
+  CookieJar,
+  NextBungieAuth,
+  NextBungieAuthConfig,
+  NextBungieAuthConfigRequiredKeys,
+  NextBungieAuthSessionResponse,
+} from "./types";
+import { resolveConfig } from "./internal/config";
+import { setAllCookies } from "./internal/cookies";
+import { AuthContext } from "./internal/context";
+import { randomId } from "./internal/crypto";
+import { silentLogger } from "./internal/logger";
+import { createNextBungieAuth } from "./server";
+
+/**
+ * The membership id used when none is provided.
+ */
+export const TEST_MEMBERSHIP_ID = "4611686018400000000";
+
+/**
+ * The config used by `createTestBungieAuth` and `buildSessionCookies` unless overridden.
+ */
+export const TEST_CONFIG: Pick<
+  NextBungieAuthConfig,
+  NextBungieAuthConfigRequiredKeys | "clientSecret" | "logger" | "tokenRetry"
+> = {
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  secret: "test-secret-do-not-use-in-production",
+  logger: silentLogger,
+  // Each scripted token response answers a single request
+  tokenRetry: { retries: 0 },
+};
+
+/**
+ * Failures which the scripted `tokenHttp` simulates when the refresh token or
+ * authorization code ends with `:<failure>`.
+ */
+type TestTokenFailure = "invalid_grant" | "SystemDisabled" | "error";
+
+const STATUS_FAILURES: Partial<
+  Record<NextBungieAuthSessionResponse["status"], TestTokenFailure>
+> = {
+  expired: "invalid_grant",
+  disabled: "SystemDisabled",
+  error: "error",
+};
+
+/**
+ * A scripted response for the test `tokenHttp`. Either tokens to return (missing fields
+ * are generated), an OAuth error, or a raw `Response`.
+ */
+export type TestTokenResponse =
+  | Partial<BungieTokenResponse>
+  | { error: string; error_description: string; status?: number }
+  | Response;
+
+/**
+ * A cookie jar which keeps cookies in memory. Can be passed to any of the server-side helpers.
+ */
+export interface TestCookieJar extends CookieJar {
+  /**
+   * Returns all cookies currently in the jar.
+   */
+  getAll: () => { name: string; value: string }[];
+  /**
+   * Serializes the cookies as a `Cookie` request header, for building requests.
+   */
+  toString: () => string;
+}
+
+/**
+ * Creates an empty in-memory cookie jar.
+ */
+export const createTestCookieJar = (): TestCookieJar => {
+  const cookies = new Map<string, string>();
+
+  return {
+    get: (name) => {
+      const value = cookies.get(name);
+      return value === undefined ? undefined : { value };
+    },
+    set: (name, value) => {
+      cookies.set(name, value);
+    },
+    delete: (name) => {
+      cookies.delete(name);
+    },
+    getAll: () =>
+      Array.from(cookies, ([name, value]) => ({
+        name,
+        value,
+      })),
+    toString: () =>
+      Array.from(
+        cookies,
+        ([name, value]) => `${name}=${encodeURIComponent(value)}`
+      ).join("; "),
+  };
+};
+
+/** The lifetime of generated refresh tokens in seconds */
+const REFRESH_EXPIRES_IN = 7_776_000;
+
+const generateTokens = (
+  membershipId: string,
+  expiresIn = 3600,
+  failure?: TestTokenFailure
+): BungieTokenResponse => ({
+  access_token: `test-access-token.${membershipId}.${randomId(8)}`,
+  token_type: "Bearer",
+  expires_in: expiresIn,
+  refresh_token: `test-refresh-token.${membershipId}.${randomId(8)}${failure ? `:${failure}` : ""}`,
+  refresh_expires_in: REFRESH_EXPIRES_IN,
+  membership_id: membershipId,
+});
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+const toResponse = (
+  scripted: TestTokenResponse,
+  params: Parameters<NextBungieAuthConfig["tokenHttp"]>[0]
+) => {
+  if (scripted instanceof Response) {
+    return scripted;
+  }
+
+  if ("error" in scripted) {
+    const { status = 400, ...error } = scripted;
+    return jsonResponse(error, status);
+  }
+
+  return jsonResponse(
+    {
+      ...generateTokens(getMembershipId(params.value)),
+      ...scripted,
+    },
+    200
+  );
+};
+
+const getMembershipId = (value: string) =>
+  /^test-(?:refresh-token|code)\.(\d+)/.exec(value)?.[1] ?? TEST_MEMBERSHIP_ID;
+
+/**
+ * The default behavior of the test `tokenHttp` when there are no scripted responses left.
+ * Issues new tokens, unless the value ends with a simulated failure.
+ */
+const defaultTokenResponse = (
+  params: Parameters<NextBungieAuthConfig["tokenHttp"]>[0]
+) => {
+  const failure = /:(\w+)$/.exec(params.value)?.[1] as
+    | TestTokenFailure
+    | undefined;
+
+  switch (failure) {
+    case "invalid_grant":
+      return jsonResponse(
+        {
+          error: "invalid_grant",
+          error_description: "AuthorizationRecordExpired",
+        },
+        400
+      );
+    case "SystemDisabled":
+      return jsonResponse(
+        { error: "server_error", error_description: "SystemDisabled" },
+        503
+      );
+    case "error":
+      return new Response("Internal Server Error", { status: 500 });
+    default:
+      return jsonResponse(generateTokens(getMembershipId(params.value)), 200);
+  }
+};
+
+/**
+ * Creates a NextBungieAuth instance for tests, which never contacts bungie.net.
+ *
+ * Token requests are answered by the `tokenResponses` script in order, then by generated
+ * tokens. Refresh tokens and codes ending in `:invalid_grant`, `:SystemDisabled` or `:error`
+ * simulate the corresponding failure, which `buildSessionCookies` uses for the
+ * `expired`, `disabled` and `error` statuses.
+ *
+ * @example
+ * ```ts
+ * const auth = createTestBungieAuth();
+ * const cookies = await auth.buildSessionCookies({ status: "stale" });
+ * const { session } = await auth.serverSideHelpers.getRefreshedServerSession(cookies);
+ * expect(session.status).toBe("authorized");
+ * ```
+ */
+export const createTestBungieAuth = (
+  config: Partial<NextBungieAuthConfig> = {},
+  { tokenResponses = [] }: { tokenResponses?: TestTokenResponse[] } = {}
+): NextBungieAuth & {
+  /**
+   * The parameters of every request made to `tokenHttp`, in order.
+   */
+  tokenRequests: Parameters<NextBungieAuthConfig["tokenHttp"]>[0][];
+  /**
+   * Adds responses to the end of the `tokenHttp` script.
+   */
+  queueTokenResponses: (...responses: TestTokenResponse[]) => void;
+  /**
+   * Builds a cookie jar for this instance, see `buildSessionCookies`.
+   */
+  buildSessionCookies: (
+    options: BuildSessionCookiesOptions
+  ) => Promise<TestCookieJar>;
+} => {
+  const script = [...tokenResponses];
+  const tokenRequests: Parameters<NextBungieAuthConfig["tokenHttp"]>[0][] = [];
+
+  const testConfig = {
+    ...TEST_CONFIG,
+    tokenHttp: (params: Parameters<NextBungieAuthConfig["tokenHttp"]>[0]) => {
+      tokenRequests.push(params);
+      const scripted = script.shift();
+      return Promise.resolve(
+        scripted ? toResponse(scripted, params) : defaultTokenResponse(params)
+      );
+    },
+    ...config,
+  };
+
+  return {
+    ...createNextBungieAuth(testConfig),
+    tokenRequests,
+    queueTokenResponses: (...responses) => {
+      script.push(...responses);
+    },
+    buildSessionCookies: (options) => buildSessionCookies(options, testConfig),
+  };
+};
+
+export interface BuildSessionCookiesOptions {
+  /**
+   * The status `getServerSession` or `getRefreshedServerSession` should report.
+   *
+   * `stale` cookies hold an expired access token, while `expired`, `disabled` and `error`
+   * are stale cookies whose refresh fails in the corresponding way when used with
+   * `createTestBungieAuth`.
+   */
+  status: Exclude<NextBungieAuthSessionResponse["status"], "forbidden">;
+  /**
+   * @default TEST_MEMBERSHIP_ID
+   */
+  membershipId?: string;
+  /**
+   * The time in seconds until the access token expires, for `authorized` sessions.
+   * @default 3600
+   */
+  expiresIn?: number;
+}
+
+/**
+ * Builds a cookie jar holding a valid session with the requested status.
+ *
+ * The config must match the one used by the code under test, since the cookies are
+ * encrypted with its secret. Defaults to `TEST_CONFIG`.
+ */
+export const buildSessionCookies = async (
+  {
+    status,
+    membershipId = TEST_MEMBERSHIP_ID,
+    expiresIn = 3600,
+  }: BuildSessionCookiesOptions,
+  config: Partial<NextBungieAuthConfig> = {}
+): Promise<TestCookieJar> => {
+  const defaultedConfig = resolveConfig({ ...TEST_CONFIG, ...config });
+  const cookieJar = createTestCookieJar();
+
+  if (status === "unauthorized") {
+    return cookieJar;
+  }
+
+  const tokens = generateTokens(
+    membershipId,
+    status === "authorized" ? expiresIn : -1,
+    STATUS_FAILURES[status]
+  );
+  const accessAge = tokens.expires_in * 1000;
+
+  await setAllCookies(
+    {
+      tokens,
+      sessionAge: REFRESH_EXPIRES_IN * 1000,
+      accessAge,
+      accessExpires: new Date(Date.now() + accessAge),
+    },
+    cookieJar,
+    defaultedConfig
+  );
+
+  return cookieJar;
+};
+
+/**
+ * A drop in replacement for `BungieSessionProvider` which pins the session to the given
+ * state, for testing components which use `useBungieSession`.
+ *
+ * @example
+ * ```tsx
+ * render(
+ *   <MockBungieSessionProvider
+ *     session={{
+ *       status: "unauthorized",
+ *       isPending: false,
+ *       isFetching: false,
+ *       isError: false,
+ *       error: undefined,
+ *       data: null,
+ *     }}
+ *   >
+ *     <SignInButton />
+ *   </MockBungieSessionProvider>
+ * );
+ * ```
+ */
+export const MockBungieSessionProvider = ({
+  session,
+  refresh = () => undefined,
+  kill = () => undefined,
+  accounts = [],
+  switchAccount = () => undefined,
+  removeAccount = () => undefined,
+  children,
+}: {
+  session: BungieSessionState;
+  refresh?: BungieSession["refresh"];
+  kill?: BungieSession["kill"];
+  accounts?: BungieSession["accounts"];
+  switchAccount?: BungieSession["switchAccount"];
+  removeAccount?: BungieSession["removeAccount"];
+  children: React.ReactNode;
+}) => {
+  return (
+    <AuthContext.Provider
+      value={{
+        ...session,
+        refresh,
+        kill,
+        accounts,
+        switchAccount,
+        removeAccount,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -1,7 +1,59 @@
-import type { ResponseCookie } from "next/dist/compiled/@edge-runtime/cookies";
-import type { ReadonlyRequestCookies } from "next/dist/server/web/spec-extension/adapters/request-cookies";
 import type { NextRequest, NextResponse } from "next/server";
 
+/**
+ * The attributes of a cookie set by the library.
+ */
+export interface CookieOptions {
+  domain?: string;
+  path?: string;
+  /**
+   * The lifetime of the cookie in seconds.
+   */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+  partitioned?: boolean;
+  priority?: "low" | "medium" | "high";
+}
+
+/**
+ * The subset of a cookie store used to read and write the session, such as the one
+ * returned by `cookies()` from `next/headers`, or `createCookieJar` from
+ * `next-bungie-auth/core` for other frameworks.
+ */
+export interface CookieJar {
+  get: (name: string) => { value: string } | undefined;
+  set: (name: string, value: string, options?: CookieOptions) => void;
+  delete: (name: string) => void;
+}
+
+/**
+ * The framework agnostic core of the library, created by `createBungieAuth` from
+ * `next-bungie-auth/core`. The handlers take a standard `Request` and the `CookieJar`
+ * of that request, and return a standard `Response`.
+ */
+export interface BungieAuth {
+  /**
+   * Serves every route, dispatching on the method and the last segment of the path, such
+   * as `GET /auth/session` or `POST /auth/refresh`.
+   */
+  handle: (request: Request, cookies: CookieJar) => Promise<Response>;
+  /**
+   * The individual routes, see `NextBungieAuth["handlers"]`.
+   */
+  handlers: {
+    [K in keyof NextBungieAuth["handlers"]]: (
+      request: Request,
+      cookies: CookieJar
+    ) => Promise<Response>;
+  };
+  /**
+   * See `NextBungieAuth["serverSideHelpers"]`.
+   */
+  serverSideHelpers: NextBungieAuth["serverSideHelpers"];
+}
+
 export interface NextBungieAuth {
   /**
    * The single handler for Bungie OAuth. Wraps the individual handlers.
@@ -28,7 +80,7 @@ export interface NextBungieAuth {
     /**
      * Handles the callback from the Bungie OAuth page.
      */
-    callbackGET: (request: NextRequest) => Promise<never>;
+    callbackGET: (request: NextRequest) => Promise<NextResponse>;
     /**
      * Retrieves the user's Bungie OAuth session.
      */
@@ -41,7 +93,58 @@ export interface NextBungieAuth {
     refreshPOST: (
       request: NextRequest
     ) => Promise<NextResponse<NextBungieAuthSessionResponse>>;
+    /**
+     * Makes another linked account the active one. Requires `multiAccount`.
+     * Expects a JSON body of `{ bungieMembershipId }`.
+     */
+    switchAccountPOST: (
+      request: NextRequest
+    ) => Promise<NextResponse<NextBungieAuthSessionResponse>>;
+    /**
+     * Signs out of a single linked account. Requires `multiAccount`.
+     * Expects a JSON body of `{ bungieMembershipId }`.
+     */
+    removeAccountPOST: (
+      request: NextRequest
+    ) => Promise<NextResponse<NextBungieAuthSessionResponse>>;
   };
+  /**
+   * Creates a Next.js middleware which refreshes the session before it goes stale, and
+   * optionally redirects unauthenticated users away from protected routes.
+   *
+   * Server components cannot set cookies, so refreshing in middleware allows them to
+   * render with an authorized session.
+   *
+   * @example
+   * ```ts
+   * // middleware.ts
+   * export default createBungieAuthMiddleware({ protect: ["/profile/:path*"] });
+   * ```
+   */
+  createBungieAuthMiddleware: (
+    options?: BungieAuthMiddlewareOptions
+  ) => (request: NextRequest) => Promise<NextResponse>;
+  /**
+   * A server action which starts signing in and redirects to bungie.net. Works as a form
+   * action without client JavaScript, reading the options from the `returnTo` and `reauth`
+   * form fields. Re-export it from a `"use server"` file to use it as an action.
+   *
+   * @example
+   * ```tsx
+   * // signIn is re-exported from a "use server" file
+   * <form action={signIn}>
+   *   <input type="hidden" name="returnTo" value="/profile" />
+   *   <button>Sign In</button>
+   * </form>
+   * ```
+   */
+  signIn: (options?: BungieSignInOptions | FormData) => Promise<never>;
+  /**
+   * A server action which signs out of every account and redirects. Works as a form action
+   * without client JavaScript, reading the options from the `redirectTo` form field.
+   * Re-export it from a `"use server"` file to use it as an action.
+   */
+  signOut: (options?: BungieSignOutOptions | FormData) => Promise<never>;
   /**
    * Server-side helper functions for managing the session in server-side logic
    */
@@ -49,14 +152,15 @@ export interface NextBungieAuth {
     /**
      * Clears the session cookie
      */
-    clearServerSession: (cookies: ReadonlyRequestCookies) => void;
+    clearServerSession: (cookies: CookieJar) => Promise<void>;
     /**
-     * Requests new tokens from the Bungie API.
+     * Requests new tokens from the Bungie API. When `cookies` are passed, the new tokens
+     * are also saved to the session, as with `updateServerSession`.
      */
     requestNewTokens: (
       grantType: "authorization_code" | "refresh_token",
       value: string,
-      cookies: ReadonlyRequestCookies
+      cookies?: CookieJar
     ) => Promise<BungieTokenResponse>;
     /**
      * Updates the server session with new tokens.
@@ -64,30 +168,102 @@ export interface NextBungieAuth {
     updateServerSession: (
       tokens: BungieTokenResponse,
       iat: Date,
-      cookies: ReadonlyRequestCookies
-    ) => void;
+      cookies: CookieJar
+    ) => Promise<void>;
     /**
-     * Synchronously retrieves the current server session from the request cookies.
+     * Retrieves the current server session from the request cookies.
      * Does not refresh the session, so it may be expired.
      */
     getServerSession: (
-      cookies: ReadonlyRequestCookies
-    ) => NextBungieAuthSessionResponse;
+      cookies: CookieJar
+    ) => Promise<NextBungieAuthSessionResponse>;
     /**
      * Retrieves the current server session from the cookies and refreshes.
      * Can only be called from an API route or a server-action.
      */
-    getRefreshedServerSession: (cookies: ReadonlyRequestCookies) => Promise<{
+    getRefreshedServerSession: (cookies: CookieJar) => Promise<{
       session: NextBungieAuthSessionResponse;
       message: string;
     }>;
+    /**
+     * Creates a client for making authorized requests to the Bungie.net API on behalf of
+     * the user. Compatible with `BungieClientProtocol` from `bungie-net-core`.
+     *
+     * Requests include the `X-API-KEY` and `Authorization` headers. If the access token is
+     * stale or rejected by bungie.net, the session is refreshed and the request is retried once.
+     * In a Server Component, where cookies are read-only, the session is never refreshed,
+     * as the rotated refresh token could not be saved. Refresh it in middleware instead.
+     *
+     * @throws BungieReadOnlyCookiesError when the session must be refreshed but the cookies
+     * are read-only
+     *
+     * @throws BungiePlatformError when bungie.net responds with an error code
+     */
+    createBungieClient: (cookies: CookieJar) => BungieClient;
   };
 }
 
-export type NextBungieAuthConfigRequiredKeys =
-  | "clientId"
-  | "clientSecret"
-  | "generateState";
+/**
+ * Options for the middleware created by `createBungieAuthMiddleware`.
+ */
+export interface BungieAuthMiddlewareOptions {
+  /**
+   * Path matchers for routes which require an authenticated session, such as `/profile/:path*`.
+   * Unauthenticated requests are redirected to the authorize route with a `callback_url`
+   * pointing back to the requested page.
+   */
+  protect?: string[];
+  /**
+   * The path to the authorize API route.
+   * @default `${basePath}/api/auth/authorize`, with the `authorize` segment from `routes`
+   */
+  authorizePath?: string;
+}
+
+/**
+ * Options for the `signIn` server action.
+ */
+export interface BungieSignInOptions {
+  /**
+   * The URL to return to after signing in. Must be on the same origin as the app or one of
+   * the `allowedRedirectOrigins`. Defaults to the page the action was called from.
+   */
+  returnTo?: string;
+  /**
+   * Forces bungie.net to ask the user to approve the app again, which also lets them pick
+   * another account.
+   * @default false
+   */
+  reauth?: boolean;
+}
+
+/**
+ * Options for the `signOut` server action.
+ */
+export interface BungieSignOutOptions {
+  /**
+   * The URL to redirect to after signing out. Must be on the same origin as the app or one
+   * of the `allowedRedirectOrigins`.
+   * @default "/"
+   */
+  redirectTo?: string;
+}
+
+/**
+ * The path segments the routes are served on, relative to the route the handler is
+ * mounted on. See `NextBungieAuthConfig.routes`.
+ */
+export interface NextBungieAuthRoutes {
+  authorize: string;
+  callback: string;
+  session: string;
+  refresh: string;
+  deauthorize: string;
+  switchAccount: string;
+  removeAccount: string;
+}
+
+export type NextBungieAuthConfigRequiredKeys = "clientId" | "secret";
 
 /**
  * Configuration options for NextBungieAuth.
@@ -98,9 +274,57 @@ export interface NextBungieAuthConfig {
    */
   clientId: string;
   /**
-   * The client secret for Bungie OAuth.
+   * The client secret for Bungie OAuth, for applications with the "Confidential" client type.
+   *
+   * Omit it for applications with the "Public" client type. Sign ins then use PKCE, and
+   * since Bungie does not issue refresh tokens to public clients, the session ends when the
+   * access token expires.
+   */
+  clientSecret?: string;
+  /**
+   * The secret used to encrypt the access and refresh token cookies with AES-GCM.
+   * Should be a long, random string which is not shared with anything else.
+   *
+   * To rotate keys, pass an array of secrets. The first secret is used to encrypt new
+   * cookies, while all of them are tried when decrypting. Cookies which cannot be
+   * decrypted by any secret are treated as an unauthorized session.
+   */
+  secret: string | string[];
+  /**
+   * The API key of your Bungie.net application. Required to use `createBungieClient`.
+   */
+  apiKey?: string;
+  /**
+   * The origin of bungie.net, used for the authorization redirect and by the default
+   * `tokenHttp` and `membershipHttp`. May include a path prefix.
+   *
+   * Point this at `next-bungie-auth/mock-server` to develop or run end-to-end tests
+   * without a Bungie.net account.
+   *
+   * Defaults to `https://www.bungie.net`.
+   */
+  bungieBaseUrl: string;
+  /**
+   * Renames the routes served by `catchAllHandler`, such as `{ authorize: "login" }` to keep
+   * legacy URLs working. A route is matched when the request path ends with its segment,
+   * which may contain slashes, such as `oauth/callback`.
+   *
+   * Pass the same routes to `BungieSessionProvider`, so the client calls the renamed routes.
+   *
+   * Defaults to the route names, with `switch-account` and `remove-account` for the
+   * account routes.
    */
-  clientSecret: string;
+  routes: Partial<NextBungieAuthRoutes>;
+  /**
+   * The `basePath` of the Next.js app, such as `/docs`.
+   *
+   * Redirect targets which are root relative paths, such as a `callback_url` of `/profile`,
+   * are resolved within the base path, like `redirect` from `next/navigation`. It is also
+   * used for the default authorize path of the middleware.
+   *
+   * Defaults to "".
+   */
+  basePath: string;
   /**
    * The time in seconds before the access token expires when calls to the session
    * endpoint will refresh the session.
@@ -111,6 +335,21 @@ export interface NextBungieAuthConfig {
    * Defaults to 300 seconds (5 minutes).
    */
   sessionRefreshGracePeriod: number;
+  /**
+   * The time in seconds the result of a session refresh is reused for concurrent requests
+   * which still hold the previous refresh token.
+   *
+   * Bungie rotates the refresh token every time it is used, so without this window, a request
+   * which arrives just after another request refreshed the session would be logged out.
+   *
+   * Defaults to 30 seconds.
+   */
+  refreshReuseWindow: number;
+  /**
+   * Optional coordinator used to deduplicate session refreshes across multiple server instances.
+   * Refreshes are always deduplicated within a single process.
+   */
+  refreshCoordinator?: NextBungieAuthRefreshCoordinator;
   /**
    * The name of the base cookie. Defaults to `__next-bungie-auth`.
    */
@@ -123,26 +362,101 @@ export interface NextBungieAuthConfig {
         sameSite: "lax"
       }```
    */
-  cookieOptions: Partial<Omit<ResponseCookie, "expires">>;
+  cookieOptions: CookieOptions;
+  /**
+   * When enabled, signing in adds the account to the browser instead of replacing the
+   * current session, and users can switch between the linked accounts.
+   *
+   * Each account's session is stored under its own cookies (or session store entry), and
+   * the session routes report the active account along with the linked ones. Signing out
+   * with the deauthorize route signs out of every account.
+   *
+   * Defaults to false.
+   */
+  multiAccount: boolean;
+  /**
+   * Optional server-side store for the session tokens.
+   *
+   * When provided, the access and refresh tokens never leave the server. The browser only
+   * holds a signed, opaque session id cookie which is used to look up the session in the store.
+   *
+   * @see createMemorySessionStore for a reference implementation
+   */
+  sessionStore?: NextBungieAuthSessionStore;
   /**
-   * Function to generate a state for the OAuth request.
-   * @param request - The NextRequest object.
+   * Optional function to generate a state for the OAuth request.
+   *
+   * By default, the state is an HMAC signed payload which carries the callback URL and
+   * expires after 15 minutes. It is bound to the browser, but not to a single sign in, so
+   * concurrent sign ins from multiple tabs succeed.
+   *
+   * When provided, the state and callback URL are instead stored in cookies and compared
+   * on callback, so only the most recent sign in from a browser can succeed.
+   *
+   * @param request - The authorize request.
    * @returns The state string.
    */
-  generateState: (request: NextRequest) => string;
+  generateState?: (request: Request) => string;
   /**
    * Function to make HTTP request given the parameters.
    * Defaults to a fetch request using the native fetch API to the Bungie API.
    *
+   * The request should be aborted when `signal` aborts. The attempt fails when the signal
+   * aborts either way, see `tokenRetry`.
+   *
    * @returns A promise that resolves to the Bungie token response.
    * @throws BungieAuthorizationError | Error
    */
   tokenHttp: (params: {
+    bungieBaseUrl: string;
     clientId: string;
-    clientSecret: string;
+    /**
+     * The client secret, or undefined for public clients.
+     */
+    clientSecret?: string;
     grantType: "authorization_code" | "refresh_token";
     grantKey: "code" | "refresh_token";
     value: string;
+    /**
+     * The PKCE code verifier, sent with the authorization code by public clients.
+     */
+    codeVerifier?: string;
+    /**
+     * Aborts when the attempt times out.
+     */
+    signal: AbortSignal;
+  }) => Promise<Response>;
+  /**
+   * Controls how token requests to bungie.net are retried and timed out. Connections which
+   * fail before the request is sent are retried with exponential backoff and jitter, as
+   * are 5xx responses to refreshes. Codes are single use and refresh tokens rotate, so
+   * timeouts, other network errors and OAuth errors such as `invalid_grant` are never
+   * retried.
+   *
+   * If a token is rejected with `invalid_grant` after an earlier attempt to use it failed
+   * without a response, the session is reported as `error` instead of `expired`, since
+   * that attempt may have used it.
+   *
+   * Defaults to 2 retries, with a 10 second timeout per attempt and 20 seconds in total.
+   */
+  tokenRetry: Partial<NextBungieAuthTokenRetry>;
+  /**
+   * When enabled, the user's Bungie.net profile and primary Destiny membership are fetched
+   * after sign in, and returned as `profile` in the session data.
+   *
+   * Requires `apiKey` to be set. Defaults to false.
+   */
+  enrichSession: boolean;
+  /**
+   * Function to request the current user's memberships when `enrichSession` is enabled.
+   * Defaults to a fetch request to GetMembershipsForCurrentUser using the native fetch API.
+   *
+   * @returns A promise that resolves to the Bungie.net API response.
+   */
+  membershipHttp: (params: {
+    bungieBaseUrl: string;
+    apiKey: string;
+    accessToken: string;
   }) => Promise<Response>;
   /**
    * During the authorization request, this function generates the callback URL cookie
@@ -151,20 +465,24 @@ export interface NextBungieAuthConfig {
    * Defaults to a function that returns the `callback_url` query parameter
    * or the referrer header if the query parameter is not present.
    *
-   * @param request The authorize request object.
+   * The value is discarded unless it points at the same origin as the request or one of
+   * the `allowedRedirectOrigins`. Relative paths are resolved against the request.
+   *
+   * @param request The authorize request object. It is a standard `Request` rather than a
+   * `NextRequest`, so read the URL with `new URL(request.url)` instead of `nextUrl`.
    * @returns The value for the callback URL cookie, or null if no callback URL is present.
    */
-  generateCallbackUrlCookie: (request: NextRequest) => string | null;
+  generateCallbackUrlCookie: (request: Request) => string | null;
   /**
    * After a successful authorization, this function generates the base callback URL from
    * the request object and the callback URL cookie.
    *
    * @param request The callback request object coming from bungie.net.
-   * @param callbackUrlCookie The value of the callback URL cookie.
+   * @param callbackUrlCookie The callback URL, from the signed state or the callback URL cookie.
    * @returns The url to redirect the user to after authorization.
    */
   generateCallbackUrl: (
-    request: NextRequest,
+    request: Request,
     callbackUrlCookie: string | null
   ) => string;
   /**
@@ -173,51 +491,401 @@ export interface NextBungieAuthConfig {
    *
    * @param request The request object coming from bungie.net.
    * @param errorType The type of error that occurred.
-   * @param callbackUrlCookie The value of the callback URL cookie.
+   * @param callbackUrlCookie The callback URL, from the signed state or the callback URL cookie.
    * @returns
    */
   generateErrorCallbackUrl: (
-    request: NextRequest,
+    request: Request,
     errorType: "state_mismatch" | "token_error",
     callbackUrlCookie: string | null
   ) => string;
+  /**
+   * Origins other than the app's own which users may be redirected to after signing in,
+   * such as `https://admin.example.com`.
+   *
+   * Callback URLs and the URLs returned by `generateCallbackUrl` and `generateErrorCallbackUrl`
+   * pointing anywhere else are rejected with a warning, and the user is redirected to `/`
+   * instead. This prevents crafted sign in links from bouncing users to other sites.
+   *
+   * Defaults to an empty array, allowing only the same origin as the request.
+   */
+  allowedRedirectOrigins: string[];
+  /**
+   * How the deauthorize and refresh routes are protected against cross-site request forgery.
+   *
+   * - `origin` - Requests from browsers must be same origin, as reported by the
+   *   `Sec-Fetch-Site` or `Origin` headers.
+   * - `double-submit` - Additionally requires the CSRF cookie to be echoed back in the
+   *   `x-next-bungie-auth-csrf` header, which `BungieSessionProvider` does automatically.
+   * - `false` - Disables the protection.
+   *
+   * Rejected requests receive a 403 response with the `forbidden` status.
+   *
+   * Defaults to `origin`.
+   */
+  csrfProtection: "origin" | "double-submit" | false;
+  /**
+   * Callbacks for session lifecycle events, such as upserting users on sign in or
+   * recording analytics.
+   *
+   * Each callback is awaited before the response is sent, and errors thrown by a callback
+   * are not caught.
+   */
+  events: Partial<NextBungieAuthEvents>;
+  /**
+   * Receives a structured record for each request handled by the library.
+   * The client secret and encryption secrets, tokens and authorization codes used by the
+   * request, and fields whose name suggests a credential, are redacted before the record
+   * is passed in.
+   *
+   * Use `jsonLogger` for JSON lines in production, `prettyLogger` for local development, or
+   * `silentLogger` in tests. Defaults to `prettyLogger`.
+   */
+  logger: NextBungieAuthLogger;
   /**
    * Callback which takes in the result of the request and logs it.
+   *
+   * @deprecated Use `logger` instead, which receives structured records. If provided,
+   * this callback is used in place of the default logger.
    */
-  logRequest: (
+  logRequest?: (
     path: "authorize" | "deauthorize" | "callback" | "session" | "refresh",
     status: "success" | "error" | "info" | "warn",
     message: string
   ) => void;
 }
 
+/**
+ * A structured log record. All values are JSON serializable.
+ */
+export interface NextBungieAuthLogRecord {
+  level: "debug" | "info" | "warn" | "error";
+  /**
+   * The route or component which handled the request.
+   */
+  route:
+    | "authorize"
+    | "deauthorize"
+    | "callback"
+    | "session"
+    | "refresh"
+    | "switchAccount"
+    | "removeAccount"
+    | "middleware";
+  message: string;
+  /**
+   * The `x-request-id` header of the request, or a random id if not present.
+   */
+  requestId: string;
+  /**
+   * The time in milliseconds since the request started.
+   */
+  durationMs: number;
+  /**
+   * The result of the request, such as the resulting session status.
+   */
+  outcome?: string;
+  bungieMembershipId?: string;
+  /**
+   * The error returned by bungie.net, such as `invalid_grant`.
+   */
+  bungieErrorCode?: string;
+  /**
+   * The attempt number of a token request, starting at 1.
+   */
+  attempt?: number;
+  /**
+   * The delay before the token request is retried.
+   */
+  retryInMs?: number;
+}
+
+/**
+ * Receives structured log records. See `NextBungieAuthConfig.logger`.
+ */
+export type NextBungieAuthLogger = (record: NextBungieAuthLogRecord) => void;
+
+/**
+ * Retry and timeout options for token requests. See `NextBungieAuthConfig.tokenRetry`.
+ *
+ * Durations are in milliseconds.
+ */
+export interface NextBungieAuthTokenRetry {
+  /**
+   * The number of retries after the first attempt. Set to 0 to disable retries.
+   * @default 2
+   */
+  retries: number;
+  /**
+   * The maximum delay before the first retry, which doubles with each retry. The actual
+   * delay is picked at random up to this value, so retries from many servers are spread out.
+   * @default 250
+   */
+  baseDelay: number;
+  /**
+   * The upper bound of the delay between retries.
+   * @default 2000
+   */
+  maxDelay: number;
+  /**
+   * The time each attempt may take before it is aborted.
+   * @default 10000
+   */
+  attemptTimeout: number;
+  /**
+   * The time all attempts, including the delays between them, may take. No retry is
+   * made if it would start after this.
+   * @default 20000
+   */
+  totalTimeout: number;
+}
+
+/**
+ * Session lifecycle callbacks. See `NextBungieAuthConfig.events`.
+ *
+ * Requests are standard `Request` objects, which are `NextRequest`s when the session is
+ * handled by the Next.js route handlers or middleware.
+ */
+export interface NextBungieAuthEvents {
+  /**
+   * Called after the authorization code is exchanged for tokens and the session is created.
+   */
+  onSignIn: (params: {
+    tokens: BungieTokenResponse;
+    request: Request;
+  }) => void | Promise<void>;
+  /**
+   * Called after the session is refreshed with new tokens.
+   * The request is null when the refresh was triggered by `getRefreshedServerSession`.
+   */
+  onRefresh: (params: {
+    tokens: BungieTokenResponse;
+    request: Request | null;
+  }) => void | Promise<void>;
+  /**
+   * Called after the session is cleared by the deauthorize route.
+   */
+  onSignOut: (params: {
+    bungieMembershipId: string | null;
+    request: Request;
+  }) => void | Promise<void>;
+  /**
+   * Called when exchanging an authorization code or refresh token with bungie.net fails.
+   * The request is null when the refresh was triggered by `getRefreshedServerSession`.
+   */
+  onTokenError: (params: {
+    error: unknown;
+    grantType: "authorization_code" | "refresh_token";
+    bungieMembershipId: string | null;
+    request: Request | null;
+  }) => void | Promise<void>;
+  /**
+   * Called when the state returned from bungie.net does not match the state of the
+   * authorization request, or the signed state is invalid or expired. `expected` is
+   * only set when a custom `generateState` is used.
+   */
+  onStateMismatch: (params: {
+    expected: string | null;
+    received: string;
+    request: Request;
+  }) => void | Promise<void>;
+}
+
+/**
+ * The session persisted in a `NextBungieAuthSessionStore`.
+ *
+ * Dates are in milliseconds since epoch.
+ */
+export interface NextBungieAuthSessionRecord {
+  bungieMembershipId: string;
+  accessToken: string;
+  accessTokenExpiresAt: number;
+  /**
+   * Not present for public clients, which do not receive refresh tokens.
+   */
+  refreshToken?: string;
+  refreshTokenExpiresAt: number;
+  /**
+   * When the user signed in. Not present for records stored by earlier versions.
+   */
+  authenticatedAt?: number;
+  profile?: NextBungieAuthProfile;
+}
+
+/**
+ * Adapter interface for persisting sessions on the server, such as in Redis or a database.
+ */
+export interface NextBungieAuthSessionStore {
+  /**
+   * Retrieves the session record, or null if it does not exist or has expired.
+   */
+  get: (sessionId: string) => Promise<NextBungieAuthSessionRecord | null>;
+  /**
+   * Creates or replaces the session record.
+   * @param ttl The time in seconds after which the record may be discarded.
+   */
+  set: (
+    sessionId: string,
+    record: NextBungieAuthSessionRecord,
+    ttl: number
+  ) => Promise<void>;
+  /**
+   * Deletes the session record.
+   */
+  delete: (sessionId: string) => Promise<void>;
+  /**
+   * Marks the session as recently used and updates its time to live.
+   * @param ttl The time in seconds after which the record may be discarded.
+   */
+  touch: (sessionId: string, ttl: number) => Promise<void>;
+}
+
+/**
+ * The result of exchanging a refresh token, shared between concurrent refreshes.
+ */
+export interface NextBungieAuthRefreshResult {
+  tokens: BungieTokenResponse;
+  /**
+   * When the tokens were issued, in milliseconds since epoch.
+   */
+  issuedAt: number;
+}
+
+/**
+ * Adapter interface for coordinating session refreshes across multiple server instances,
+ * such as with Redis.
+ *
+ * Keys are derived from a hash of the refresh token being exchanged.
+ */
+export interface NextBungieAuthRefreshCoordinator {
+  /**
+   * Attempts to acquire an exclusive lock for the key.
+   * @param ttl The time in seconds after which the lock is released automatically.
+   * @returns true if the lock was acquired.
+   */
+  acquire: (key: string, ttl: number) => Promise<boolean>;
+  /**
+   * Releases the lock for the key.
+   */
+  release: (key: string) => Promise<void>;
+  /**
+   * Retrieves the result of a refresh completed by any instance, or null if there is none.
+   */
+  getResult: (key: string) => Promise<NextBungieAuthRefreshResult | null>;
+  /**
+   * Stores the result of a refresh so other instances can reuse it.
+   * @param ttl The time in seconds the result should be kept.
+   */
+  setResult: (
+    key: string,
+    result: NextBungieAuthRefreshResult,
+    ttl: number
+  ) => Promise<void>;
+}
+
+/**
+ * A request to the Bungie.net API. Matches `BungieFetchConfig` from `bungie-net-core`.
+ */
+export interface BungieFetchConfig {
+  url: URL;
+  method: string;
+  headers?: Record<string, string>;
+  body?: BodyInit | null;
+  /**
+   * Aborts the request, including while it waits for the session to be refreshed.
+   */
+  signal?: AbortSignal | null;
+}
+
+/**
+ * A client for making requests to the Bungie.net API. Matches `BungieClientProtocol`
+ * from `bungie-net-core`, so it can be passed to any of its endpoints.
+ */
+export interface BungieClient {
+  fetch<T>(config: BungieFetchConfig): Promise<T>;
+}
+
 export interface BungieTokenResponse {
   access_token: string;
   token_type: "Bearer";
   expires_in: number;
-  refresh_token: string;
-  refresh_expires_in: number;
+  /**
+   * Not issued to public clients.
+   */
+  refresh_token?: string;
+  refresh_expires_in?: number;
   membership_id: string;
 }
 
 /**
  * The data returned from the session API route.
  *
- * Dates are in seconds since epoch`.
+ * Dates are ISO 8601 strings.
  */
 export interface NextBungieAuthSessionData {
   bungieMembershipId: string;
   accessToken: string;
   accessTokenExpiresAt: string;
+  /**
+   * When the refresh token expires, after which the user must sign in again. Not present
+   * for public clients, whose session ends when the access token expires.
+   */
+  refreshTokenExpiresAt?: string;
+  /**
+   * When the user signed in. Kept across refreshes. Not present for sessions created
+   * before this was stored.
+   */
+  authenticatedAt?: string;
+  /**
+   * The user's Bungie.net profile. Only present when `enrichSession` is enabled.
+   */
+  profile?: NextBungieAuthProfile;
+}
+
+/**
+ * A compact summary of the user's Bungie.net account, stored with the session
+ * when `enrichSession` is enabled.
+ */
+export interface NextBungieAuthProfile {
+  /**
+   * The Bungie Name of the user, such as `Name#1234`.
+   */
+  uniqueName: string;
+  /**
+   * The path to the user's avatar, relative to the `bungieBaseUrl` of the config.
+   */
+  profilePicturePath: string;
+  /**
+   * The primary Destiny membership, or null if the user has no Destiny memberships.
+   */
+  primaryMembership: {
+    membershipType: number;
+    membershipId: string;
+  } | null;
+  /**
+   * The membership type which overrides the others when Cross Save is enabled, or 0 if disabled.
+   */
+  crossSaveOverride: number;
 }
 
 export interface NextBungieAuthSaleSessionData {
   bungieMembershipId: string;
 }
 
-export type NextBungieAuthSessionResponse =
+/**
+ * An account signed in to the browser when `multiAccount` is enabled.
+ */
+export interface NextBungieAuthLinkedAccount {
+  bungieMembershipId: string;
+  /**
+   * The user's Bungie.net profile. Only present when `enrichSession` is enabled.
+   */
+  profile?: NextBungieAuthProfile;
+}
+
+export type NextBungieAuthSessionResponse = (
   | {
-      status: "expired" | "unauthorized" | "error";
+      status: "expired" | "unauthorized" | "error" | "forbidden";
       data: null;
     }
   | {
@@ -227,7 +895,14 @@ export type NextBungieAuthSessionResponse =
   | {
       status: "authorized";
       data: NextBungieAuthSessionData;
-    };
+    }
+) & {
+  /**
+   * The accounts signed in to the browser, including the active one. Only present when
+   * `multiAccount` is enabled.
+   */
+  accounts?: NextBungieAuthLinkedAccount[];
+};
 
 /**
  * Options for the BungieSessionProvider.
@@ -235,21 +910,52 @@ export type NextBungieAuthSessionResponse =
 export interface BungieSessionProviderParams {
   children: React.ReactNode;
   initialSession?: NextBungieAuthSessionResponse;
+  /**
+   * The path the auth routes are mounted on. The default path of each route is derived
+   * from it. Must include the `basePath` of the Next.js app, if any, since `fetch` does
+   * not add it.
+   * @default "/api/auth"
+   */
+  authBasePath?: string;
+  /**
+   * The route segments, if they were renamed with the `routes` config on the server.
+   */
+  routes?: Partial<NextBungieAuthRoutes>;
   /**
    * The path to the session API route.
-   * @default "/api/auth/session"
+   * @default `${authBasePath}/session`
    */
   sessionPath?: string;
   /**
    * The path to the refresh session API route.
-   * @default "/api/auth/refresh"
+   * @default `${authBasePath}/refresh`
    */
   refreshPath?: string;
   /**
    * The path to the deauthorize API route.
-   * @default "/api/auth/signout"
+   * @default `${authBasePath}/deauthorize`
    */
   deauthorizePath?: string;
+  /**
+   * The path to the switch account API route, used when `multiAccount` is enabled.
+   * @default `${authBasePath}/switch-account`
+   */
+  switchAccountPath?: string;
+  /**
+   * The path to the remove account API route, used when `multiAccount` is enabled.
+   * @default `${authBasePath}/remove-account`
+   */
+  removeAccountPath?: string;
+  /**
+   * The name of the CSRF cookie, which is sent back in a header with every POST request.
+   * It must be `${baseCookieName}.csrf`, so it only needs to be changed if `baseCookieName`
+   * is changed on the server.
+   *
+   * The session routes also report the name of the cookie, which the provider uses once
+   * it is known. A request rejected because the wrong cookie was sent is retried once.
+   * @default "__next-bungie-auth.csrf"
+   */
+  csrfCookieName?: string;
   /**
    * When enabled, the session will automatically
    * refresh when the access token is about to expire.
@@ -262,6 +968,21 @@ export interface BungieSessionProviderParams {
    * @default true
    */
   refreshInBackground?: boolean;
+  /**
+   * When enabled, session changes and sign outs are synchronized between browser tabs,
+   * and only one tab (the leader) runs the automatic refresh. The other tabs adopt the
+   * session refreshed by the leader. If the leader has not refreshed 10 seconds after a
+   * refresh is due, for example because it is hidden or offline, a visible tab refreshes
+   * instead.
+   * @default true
+   */
+  syncAcrossTabs?: boolean;
+  /**
+   * The name of the BroadcastChannel and Web Lock used to synchronize tabs.
+   * Only needs to be changed if multiple providers with different sessions run on the same origin.
+   * @default "next-bungie-auth"
+   */
+  syncChannelName?: string;
   /**
    * The time in seconds before the access token expires when calls to the session
    * endpoint will refresh the session.
@@ -296,8 +1017,150 @@ export type BungieSession = BungieSessionState & {
    * Logs the user out by removing the session cookie.
    */
   kill: () => void;
+  /**
+   * The accounts signed in to the browser when `multiAccount` is enabled, including the
+   * active one. Empty otherwise.
+   */
+  accounts: NextBungieAuthLinkedAccount[];
+  /**
+   * Makes another linked account the active one. Ignored while another account change
+   * is pending.
+   */
+  switchAccount: (bungieMembershipId: string) => void;
+  /**
+   * Signs out of a single linked account. If it is the active account, another linked
+   * account becomes active. Ignored while another account change is pending.
+   */
+  removeAccount: (bungieMembershipId: string) => void;
 };
 
+/**
+ * Options for the `useSessionExpiry` hook.
+ */
+export interface UseSessionExpiryOptions {
+  /**
+   * How long before the session expires to start warning, in milliseconds.
+   * @default 300000 (5 minutes)
+   */
+  warnBefore?: number;
+  /**
+   * Called once when the session enters the warning window, with the time left in
+   * milliseconds. Called again if the user signs in again and the new session enters
+   * the window.
+   */
+  onWarning?: (expiresIn: number) => void;
+  /**
+   * How often the countdowns update, in milliseconds.
+   * @default 1000
+   */
+  interval?: number;
+}
+
+/**
+ * Return type for the `useSessionExpiry` hook. Durations are in milliseconds, and null
+ * when the session is not authorized or the date is not known.
+ */
+export interface BungieSessionExpiry {
+  /**
+   * The time until the access token expires. It is refreshed before then.
+   */
+  accessTokenExpiresIn: number | null;
+  /**
+   * The time until the refresh token expires, after which the user must sign in again.
+   * Always null for public clients, which do not receive refresh tokens.
+   */
+  refreshTokenExpiresIn: number | null;
+  /**
+   * The time since the user signed in.
+   */
+  authenticatedFor: number | null;
+  /**
+   * True when the session ends within `warnBefore`. The session ends with the refresh
+   * token, or with the access token for public clients.
+   */
+  isExpiringSoon: boolean;
+}
+
+/**
+ * Props for `SignInButton`, which renders a link to the authorize route.
+ */
+export interface SignInButtonProps
+  extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "href"> {
+  /**
+   * Renders the only child instead of an `<a>`, passing it the `href` and other props.
+   */
+  asChild?: boolean;
+  /**
+   * The URL to return to after signing in.
+   * @default The current URL
+   */
+  callbackUrl?: string;
+  /**
+   * Forces bungie.net to ask the user to approve the app again, which also lets them pick
+   * another account.
+   */
+  reauth?: boolean;
+  /**
+   * The path to the authorize API route.
+   * @default `${authBasePath}/authorize` of the `BungieSessionProvider`
+   */
+  authorizePath?: string;
+}
+
+/**
+ * Props for `SignOutButton`, which renders a button that signs out with `kill`.
+ */
+export interface SignOutButtonProps
+  extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  /**
+   * Renders the only child instead of a `<button>`, passing it the `onClick` and other props.
+   */
+  asChild?: boolean;
+}
+
+/**
+ * Props for `AccountMenu`, which renders the signed in account. Each part of the account
+ * can be rendered with a custom slot.
+ */
+export interface AccountMenuProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "children"> {
+  /**
+   * Renders the only child instead of a `<div>`, with the account rendered inside it.
+   */
+  asChild?: boolean;
+  /**
+   * Renders the avatar. `src` is null unless `enrichSession` is enabled.
+   * @default An `<img>` of the avatar, or nothing without one
+   */
+  avatar?: (props: { src: string | null; alt: string }) => React.ReactNode;
+  /**
+   * Renders the name of the account.
+   * @default The Bungie Name, or the membership id without `enrichSession`
+   */
+  name?: (props: {
+    name: string;
+    bungieMembershipId: string;
+    profile?: NextBungieAuthProfile;
+  }) => React.ReactNode;
+  /**
+   * Renders the status of the session.
+   * @default Nothing while authorized, otherwise a short description of the status
+   */
+  status?: (
+    session: Pick<BungieSessionState, "status" | "isFetching" | "error">
+  ) => React.ReactNode;
+  /**
+   * The origin the avatar is loaded from. Set it to the `bungieBaseUrl` of your config
+   * when it is changed, such as to use the mock server.
+   * @default "https://www.bungie.net"
+   */
+  bungieBaseUrl?: string;
+  /**
+   * Rendered after the account, such as a `SignOutButton`.
+   */
+  children?: React.ReactNode;
+}
+
 /**
  * The state of the Bungie session. It is a discriminated union type to allow type narrowing.
  *